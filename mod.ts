@@ -1,2 +1,3 @@
 // Main export file for Deno
 export * from "./src/mod.ts";
+export * from "./src/mock.ts";
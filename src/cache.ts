@@ -0,0 +1,170 @@
+/**
+ * Storage for previously localized strings
+ * Implementations must be safe to call concurrently.
+ */
+export interface TranslationCache {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Everything that influences the translation of a single string
+ */
+export interface CacheKeyParts {
+  sourceLocale: string | null;
+  targetLocale: string;
+  fast: boolean;
+  hints?: string[];
+  /** Glossary rules applying to the text, as "term=translation" */
+  glossary?: string[];
+  text: string;
+}
+
+/**
+ * Derive a stable cache key for a single string
+ * @param parts - Locales, mode, hints, glossary rules and source text
+ * @returns A hex encoded SHA-256 digest
+ */
+export async function createCacheKey(parts: CacheKeyParts): Promise<string> {
+  const serialized = JSON.stringify([
+    parts.sourceLocale,
+    parts.targetLocale,
+    parts.fast,
+    parts.hints ?? [],
+    parts.text,
+    // Left out when empty so existing keys stay valid
+    ...(parts.glossary?.length ? [parts.glossary] : []),
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(serialized),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * In-memory cache that evicts the least recently used entries
+ */
+export class MemoryTranslationCache implements TranslationCache {
+  private entries = new Map<string, string>();
+  private maxEntries: number;
+
+  /**
+   * @param options - Optional settings:
+   *   - maxEntries: Maximum number of entries kept in memory (default: 1000)
+   */
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error("maxEntries must be a positive integer");
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): Promise<string | undefined> {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return Promise.resolve(value);
+  }
+
+  set(key: string, value: string): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * The subset of `Deno.Kv` used by DenoKvTranslationCache
+ */
+export interface KvStore {
+  get<T = unknown>(key: string[]): Promise<{ value: T | null }>;
+  set(
+    key: string[],
+    value: unknown,
+    options?: { expireIn?: number },
+  ): Promise<unknown>;
+  delete(key: string[]): Promise<void>;
+}
+
+/**
+ * Persistent cache backed by Deno KV
+ */
+export class DenoKvTranslationCache implements TranslationCache {
+  private kv: KvStore;
+  private prefix: string[];
+  private expireIn?: number;
+
+  /**
+   * @param kv - An open `Deno.Kv` instance
+   * @param options - Optional settings:
+   *   - prefix: Key prefix used for all entries (default: ["lingodotdev", "translations"])
+   *   - expireIn: Time to live of every entry in milliseconds
+   */
+  constructor(
+    kv: KvStore,
+    options: { prefix?: string[]; expireIn?: number } = {},
+  ) {
+    this.kv = kv;
+    this.prefix = options.prefix ?? ["lingodotdev", "translations"];
+    this.expireIn = options.expireIn;
+  }
+
+  /**
+   * Open a Deno KV database and wrap it in a cache
+   * Requires the `--unstable-kv` flag outside of Deno Deploy.
+   * @param path - Optional path of the database file
+   * @param options - Options passed to the constructor
+   * @returns A cache backed by the opened database
+   */
+  static async open(
+    path?: string,
+    options: { prefix?: string[]; expireIn?: number } = {},
+  ): Promise<DenoKvTranslationCache> {
+    const openKv = (Deno as unknown as {
+      openKv?: (path?: string) => Promise<KvStore>;
+    }).openKv;
+    if (!openKv) {
+      throw new Error(
+        "Deno.openKv is not available. Run with --unstable-kv or pass an open Deno.Kv instance.",
+      );
+    }
+    return new DenoKvTranslationCache(await openKv(path), options);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = await this.kv.get<string>([...this.prefix, key]);
+    return entry.value ?? undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.kv.set(
+      [...this.prefix, key],
+      value,
+      this.expireIn !== undefined ? { expireIn: this.expireIn } : undefined,
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete([...this.prefix, key]);
+  }
+}
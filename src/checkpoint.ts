@@ -0,0 +1,260 @@
+/**
+ * A completed chunk of a localization job
+ */
+export interface ChunkCheckpoint {
+  chunkIndex: number;
+  /** Request the chunk was localized for; other requests ignore it */
+  sourceLocale: string | null;
+  targetLocale: string;
+  fast: boolean;
+  /** Source strings of the chunk, used to check they did not change since */
+  source: Record<string, string>;
+  /** Localized strings of the chunk */
+  translated: Record<string, string>;
+}
+
+/**
+ * Storage for the completed chunks of localization jobs, keyed by workflow ID
+ * Implementations must be safe to call concurrently.
+ */
+export interface CheckpointStore {
+  load(workflowId: string): Promise<ChunkCheckpoint[]>;
+  save(workflowId: string, checkpoint: ChunkCheckpoint): Promise<void>;
+  delete(workflowId: string): Promise<void>;
+}
+
+/**
+ * Options of a resumable localization job
+ */
+export interface LocalizationJobOptions {
+  /** ID of the job; running a job again with the same ID resumes it */
+  workflowId: string;
+  /** Where completed chunks are saved (default: the engine's checkpointStore) */
+  checkpointStore?: CheckpointStore;
+  /** Keep the checkpoints once the job completes (default: false) */
+  keepCheckpoints?: boolean;
+}
+
+/**
+ * In-memory checkpoint store, scoped to the current isolate
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private jobs = new Map<string, Map<number, ChunkCheckpoint>>();
+
+  load(workflowId: string): Promise<ChunkCheckpoint[]> {
+    const chunks = this.jobs.get(workflowId)?.values() ?? [];
+    return Promise.resolve(
+      Array.from(chunks, (checkpoint) => structuredClone(checkpoint)),
+    );
+  }
+
+  save(workflowId: string, checkpoint: ChunkCheckpoint): Promise<void> {
+    let chunks = this.jobs.get(workflowId);
+    if (!chunks) {
+      chunks = new Map();
+      this.jobs.set(workflowId, chunks);
+    }
+    chunks.set(checkpoint.chunkIndex, structuredClone(checkpoint));
+    return Promise.resolve();
+  }
+
+  delete(workflowId: string): Promise<void> {
+    this.jobs.delete(workflowId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Checkpoint store writing one JSON file per chunk
+ * Files are written to `<directory>/<workflowId>/<chunkIndex>.json`, which
+ * requires the `--allow-read` and `--allow-write` permissions.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding the checkpoints of every job
+   */
+  constructor(directory: string) {
+    this.directory = directory.replace(/\/+$/, "");
+  }
+
+  private jobDirectory(workflowId: string): string {
+    return `${this.directory}/${encodeURIComponent(workflowId)}`;
+  }
+
+  async load(workflowId: string): Promise<ChunkCheckpoint[]> {
+    const directory = this.jobDirectory(workflowId);
+    const checkpoints: ChunkCheckpoint[] = [];
+    try {
+      for await (const entry of Deno.readDir(directory)) {
+        if (entry.isFile && /^\d+\.json$/.test(entry.name)) {
+          checkpoints.push(
+            JSON.parse(await Deno.readTextFile(`${directory}/${entry.name}`)),
+          );
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+    return checkpoints.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async save(workflowId: string, checkpoint: ChunkCheckpoint): Promise<void> {
+    const directory = this.jobDirectory(workflowId);
+    const path = `${directory}/${checkpoint.chunkIndex}.json`;
+    await Deno.mkdir(directory, { recursive: true });
+    // Write then rename, so an interrupted write never leaves a partial file
+    await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(checkpoint));
+    await Deno.rename(`${path}.tmp`, path);
+  }
+
+  async delete(workflowId: string): Promise<void> {
+    try {
+      await Deno.remove(this.jobDirectory(workflowId), { recursive: true });
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * The subset of `Deno.Kv` used by DenoKvCheckpointStore
+ */
+export interface KvCheckpointBackend {
+  set(
+    key: Array<string | number>,
+    value: unknown,
+    options?: { expireIn?: number },
+  ): Promise<unknown>;
+  delete(key: Array<string | number>): Promise<void>;
+  list<T = unknown>(
+    selector: { prefix: Array<string | number> },
+  ): AsyncIterable<{ key: readonly unknown[]; value: T }>;
+}
+
+// Characters per KV entry; V8 stores up to 2 bytes per character, which keeps
+// every entry under the 64 KiB value limit of Deno KV
+const KV_PIECE_LENGTH = 30_000;
+
+// Entry of a chunk, pointing to the pieces of its JSON
+interface KvCheckpointHeader {
+  saveId: string;
+  pieces: number;
+}
+
+/**
+ * Checkpoint store backed by Deno KV
+ * Every chunk is saved as JSON split into pieces, so large chunks stay under
+ * the 64 KiB value limit of Deno KV. A header entry written after the pieces
+ * marks the chunk as saved, so an interrupted save is never loaded.
+ */
+export class DenoKvCheckpointStore implements CheckpointStore {
+  private kv: KvCheckpointBackend;
+  private prefix: string[];
+  private expireIn?: number;
+
+  /**
+   * @param kv - An open `Deno.Kv` instance
+   * @param options - Optional settings:
+   *   - prefix: Key prefix used for all entries (default: ["lingodotdev", "checkpoints"])
+   *   - expireIn: Time to live of every entry in milliseconds
+   */
+  constructor(
+    kv: KvCheckpointBackend,
+    options: { prefix?: string[]; expireIn?: number } = {},
+  ) {
+    this.kv = kv;
+    this.prefix = options.prefix ?? ["lingodotdev", "checkpoints"];
+    this.expireIn = options.expireIn;
+  }
+
+  /**
+   * Open a Deno KV database and wrap it in a checkpoint store
+   * Requires the `--unstable-kv` flag outside of Deno Deploy.
+   * @param path - Optional path of the database file
+   * @param options - Options passed to the constructor
+   * @returns A checkpoint store backed by the opened database
+   */
+  static async open(
+    path?: string,
+    options: { prefix?: string[]; expireIn?: number } = {},
+  ): Promise<DenoKvCheckpointStore> {
+    const openKv = (Deno as unknown as {
+      openKv?: (path?: string) => Promise<KvCheckpointBackend>;
+    }).openKv;
+    if (!openKv) {
+      throw new Error(
+        "Deno.openKv is not available. Run with --unstable-kv or pass an open Deno.Kv instance.",
+      );
+    }
+    return new DenoKvCheckpointStore(await openKv(path), options);
+  }
+
+  async load(workflowId: string): Promise<ChunkCheckpoint[]> {
+    const headerLength = this.prefix.length + 2;
+    const headers: KvCheckpointHeader[] = [];
+    const pieces = new Map<string, string>();
+    for await (
+      const entry of this.kv.list<KvCheckpointHeader | string>({
+        prefix: [...this.prefix, workflowId],
+      })
+    ) {
+      if (entry.key.length === headerLength) {
+        headers.push(entry.value as KvCheckpointHeader);
+      } else if (typeof entry.value === "string") {
+        pieces.set(entry.key.slice(headerLength).join("/"), entry.value);
+      }
+    }
+
+    const checkpoints: ChunkCheckpoint[] = [];
+    for (const header of headers) {
+      const json = Array.from(
+        { length: header.pieces },
+        (_, index) => pieces.get(`${header.saveId}/${index}`),
+      );
+      if (json.every((piece) => piece !== undefined)) {
+        checkpoints.push(JSON.parse(json.join("")));
+      }
+    }
+    return checkpoints.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async save(workflowId: string, checkpoint: ChunkCheckpoint): Promise<void> {
+    const key = [...this.prefix, workflowId, checkpoint.chunkIndex];
+    const options = this.expireIn !== undefined
+      ? { expireIn: this.expireIn }
+      : undefined;
+    const json = JSON.stringify(checkpoint);
+    const saveId = crypto.randomUUID();
+    const pieces = Math.max(1, Math.ceil(json.length / KV_PIECE_LENGTH));
+    for (let index = 0; index < pieces; index++) {
+      await this.kv.set(
+        [...key, saveId, index],
+        json.slice(index * KV_PIECE_LENGTH, (index + 1) * KV_PIECE_LENGTH),
+        options,
+      );
+    }
+    const header: KvCheckpointHeader = { saveId, pieces };
+    await this.kv.set(key, header, options);
+
+    // Drop the pieces of previous saves of the chunk
+    for await (const entry of this.kv.list({ prefix: key })) {
+      if (entry.key.length > key.length && entry.key[key.length] !== saveId) {
+        await this.kv.delete(entry.key as Array<string | number>);
+      }
+    }
+  }
+
+  async delete(workflowId: string): Promise<void> {
+    for await (
+      const entry of this.kv.list({ prefix: [...this.prefix, workflowId] })
+    ) {
+      await this.kv.delete(entry.key as Array<string | number>);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { findClosingBrace } from "./placeholders.ts";
+
+/**
+ * How the size of a string is measured when building chunks
+ *   - words: word count, segmenting scripts without spaces (CJK, Thai...) properly
+ *   - characters: Unicode code points
+ *   - bytes: UTF-8 bytes
+ *   - tokens: estimated LLM tokens (~4 characters, or 1 CJK character, per token)
+ *   - a custom function returning the size of a string
+ */
+export type ChunkSizing =
+  | "words"
+  | "characters"
+  | "bytes"
+  | "tokens"
+  | ((text: string) => number);
+
+// Han, Hiragana, Katakana and Hangul characters are roughly one token each
+const CJK_CHARACTER =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+const wordSegmenter = typeof Intl.Segmenter === "function"
+  ? new Intl.Segmenter(undefined, { granularity: "word" })
+  : null;
+const sentenceSegmenter = typeof Intl.Segmenter === "function"
+  ? new Intl.Segmenter(undefined, { granularity: "sentence" })
+  : null;
+
+function countWords(text: string): number {
+  if (!wordSegmenter) {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+  }
+  let count = 0;
+  for (const segment of wordSegmenter.segment(text)) {
+    if (segment.isWordLike) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function estimateTokens(text: string): number {
+  const cjkCount = text.match(CJK_CHARACTER)?.length ?? 0;
+  const otherCount = Array.from(text).length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * Create the function measuring strings for a sizing strategy
+ * @param sizing - The sizing strategy
+ * @returns A function returning the size of a string
+ */
+export function createSizer(sizing: ChunkSizing): (text: string) => number {
+  if (typeof sizing === "function") {
+    return sizing;
+  }
+  switch (sizing) {
+    case "words":
+      return countWords;
+    case "characters":
+      return (text) => Array.from(text).length;
+    case "bytes": {
+      const encoder = new TextEncoder();
+      return (text) => encoder.encode(text).length;
+    }
+    case "tokens":
+      return estimateTokens;
+    default:
+      throw new Error(`Unknown chunk sizing strategy: ${sizing}`);
+  }
+}
+
+function splitSentences(text: string): string[] {
+  if (!sentenceSegmenter) {
+    return text.match(/[^.!?。！？]+[.!?。！？]*\s*|[.!?。！？]+\s*/g) ??
+      [text];
+  }
+  return Array.from(sentenceSegmenter.segment(text), (s) => s.segment);
+}
+
+function splitWords(text: string): string[] {
+  if (!wordSegmenter) {
+    return text.match(/\S+\s*|\s+/g) ?? [text];
+  }
+  return Array.from(wordSegmenter.segment(text), (s) => s.segment);
+}
+
+// Break a piece into smaller ones until each fits, or is a single character
+function breakDown(
+  piece: string,
+  maxSize: number,
+  measure: (text: string) => number,
+  level = 0,
+): string[] {
+  if (measure(piece) <= maxSize) {
+    return [piece];
+  }
+  const parts = level === 0
+    ? splitSentences(piece)
+    : level === 1
+    ? splitWords(piece)
+    : Array.from(piece);
+  if (level < 2 && parts.length <= 1) {
+    return breakDown(piece, maxSize, measure, level + 1);
+  }
+  return parts.flatMap((part) =>
+    level < 2 ? breakDown(part, maxSize, measure, level + 1) : [part]
+  );
+}
+
+// Ranges that must stay in one part: "{...}" arguments (ICU messages
+// included), printf placeholders and numbered tags with their content
+function findUnbreakableRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "{") {
+      const close = findClosingBrace(text, i);
+      if (close !== -1) {
+        ranges.push([i, close + 1]);
+        i = close;
+      }
+    }
+  }
+  for (
+    const match of text.matchAll(
+      /%(?:\d+\$)?[sdifu@]|<(\d+)>[\s\S]*?<\/\1>|<\d+\/>/g,
+    )
+  ) {
+    ranges.push([match.index!, match.index! + match[0].length]);
+  }
+  return ranges;
+}
+
+// Merge pieces so that no boundary falls inside an unbreakable range
+function keepRangesWhole(pieces: string[], text: string): string[] {
+  const ranges = findUnbreakableRanges(text);
+  if (ranges.length === 0) {
+    return pieces;
+  }
+  const merged: string[] = [];
+  let offset = 0;
+  for (const piece of pieces) {
+    const inside = ranges.some(([start, end]) =>
+      offset > start && offset < end
+    );
+    if (inside && merged.length > 0) {
+      merged[merged.length - 1] += piece;
+    } else {
+      merged.push(piece);
+    }
+    offset += piece.length;
+  }
+  return merged;
+}
+
+/**
+ * Split a long text into parts no larger than `maxSize`
+ * Splits at sentence boundaries first, then at word boundaries, and only cuts
+ * inside a word as a last resort. Placeholders, ICU arguments and numbered
+ * tags are never cut, so a part holding one may exceed `maxSize`. Joining the
+ * parts yields the original text.
+ * @param text - The text to split
+ * @param maxSize - Maximum size of a part, as measured by `measure`
+ * @param measure - Function measuring the size of a string
+ * @returns The parts, in order
+ */
+export function splitText(
+  text: string,
+  maxSize: number,
+  measure: (text: string) => number,
+): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let currentSize = 0;
+
+  const pieces = keepRangesWhole(breakDown(text, maxSize, measure), text);
+  for (const piece of pieces) {
+    const size = measure(piece);
+    if (current && currentSize + size > maxSize) {
+      parts.push(current);
+      current = "";
+      currentSize = 0;
+    }
+    current += piece;
+    currentSize += size;
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
@@ -0,0 +1,46 @@
+/**
+ * Run an async worker over a list of items with at most `limit` in flight
+ * Results keep the order of the input regardless of completion order.
+ * Once a worker fails no new items are started and the first error is thrown.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent workers
+ * @param worker - Async function invoked for every item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const run = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, run));
+  return results;
+}
+
+/**
+ * Validate a concurrency limit
+ * @param value - The requested limit
+ * @returns The limit, if it is a positive integer
+ */
+export function validateConcurrency(value: number): number {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error("concurrency must be a positive integer");
+  }
+  return value;
+}
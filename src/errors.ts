@@ -0,0 +1,144 @@
+import type { GlossaryViolation } from "./glossary.ts";
+
+/**
+ * Context attached to every error raised by the engine
+ */
+export interface LingoDotDevErrorDetails {
+  /** HTTP status of the failed response, if any */
+  status?: number;
+  /** Raw response body of the failed response, if any */
+  body?: string;
+  /** Workflow ID of the localization request, if any */
+  workflowId?: string;
+  /** Index of the chunk that failed, if any */
+  chunkIndex?: number;
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the Lingo.dev engine
+ */
+export class LingoDotDevError extends Error {
+  readonly status?: number;
+  readonly body?: string;
+  readonly workflowId?: string;
+  readonly chunkIndex?: number;
+
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = "LingoDotDevError";
+    this.status = details.status;
+    this.body = details.body;
+    this.workflowId = details.workflowId;
+    this.chunkIndex = details.chunkIndex;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks access (401/403)
+ */
+export class AuthenticationError extends LingoDotDevError {
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, details);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The request was rejected as invalid (400)
+ */
+export class ValidationError extends LingoDotDevError {
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, details);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Too many requests were sent (429)
+ */
+export class RateLimitError extends LingoDotDevError {
+  /** Delay in milliseconds requested by the server via Retry-After, if any */
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    details: LingoDotDevErrorDetails & { retryAfter?: number } = {},
+  ) {
+    super(message, details);
+    this.name = "RateLimitError";
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * The service failed to process the request (5xx)
+ */
+export class ServerError extends LingoDotDevError {
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, details);
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * The request never reached the service or the connection was lost
+ */
+export class NetworkError extends LingoDotDevError {
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, details);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Translations broke glossary rules and the glossary enforcement is "reject"
+ */
+export class GlossaryViolationError extends LingoDotDevError {
+  /** Every rule broken, with the offending translations */
+  readonly violations: GlossaryViolation[];
+
+  constructor(
+    message: string,
+    details: LingoDotDevErrorDetails & { violations: GlossaryViolation[] },
+  ) {
+    super(message, details);
+    this.name = "GlossaryViolationError";
+    this.violations = details.violations;
+  }
+}
+
+/**
+ * The operation was cancelled through its AbortSignal
+ * Uses the "AbortError" name so existing `error.name` checks keep working.
+ */
+export class AbortedError extends LingoDotDevError {
+  constructor(message: string, details: LingoDotDevErrorDetails = {}) {
+    super(message, details);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Create the error matching an HTTP status code
+ * @param message - The error message
+ * @param details - Error context; `status` selects the error class
+ * @returns The typed error
+ */
+export function createHttpError(
+  message: string,
+  details: LingoDotDevErrorDetails & { status: number; retryAfter?: number },
+): LingoDotDevError {
+  const { status } = details;
+  if (status === 400) {
+    return new ValidationError(message, details);
+  } else if (status === 401 || status === 403) {
+    return new AuthenticationError(message, details);
+  } else if (status === 429) {
+    return new RateLimitError(message, details);
+  } else if (status >= 500 && status < 600) {
+    return new ServerError(message, details);
+  }
+  return new LingoDotDevError(message, details);
+}
@@ -0,0 +1,159 @@
+/**
+ * Terms that must be translated consistently
+ */
+export interface Glossary {
+  /** Approved translations per target locale, keyed by source term */
+  terms?: Partial<Record<string, Record<string, string>>>;
+  /** Terms kept exactly as written in every locale (brands, legal names...) */
+  doNotTranslate?: string[];
+  /** Match terms and check translations case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /**
+   * What happens to translations breaking a rule (default: "flag"):
+   *   - flag: they are kept and reported through `onViolation`
+   *   - reject: the localization fails with a GlossaryViolationError
+   */
+  enforcement?: "flag" | "reject";
+  /** Called with the violations of every localization that has some */
+  onViolation?: (violations: GlossaryViolation[]) => void;
+}
+
+/**
+ * A translation missing the expected rendering of a glossary term
+ */
+export interface GlossaryViolation {
+  /** Key of the string in the localized payload */
+  key: string;
+  /** The source term */
+  term: string;
+  /** The expected translation of the term */
+  expected: string;
+  /** The offending translation */
+  translation: string;
+}
+
+/**
+ * The glossary rules sent along with a chunk
+ */
+export interface GlossaryContext {
+  /** Expected translations of the terms found in the chunk */
+  terms: Record<string, string>;
+  /** Untranslatable terms found in the chunk */
+  doNotTranslate: string[];
+  caseSensitive: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whether `term` appears in `text` as a whole word
+function containsTerm(
+  text: string,
+  term: string,
+  caseSensitive: boolean,
+): boolean {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+    caseSensitive ? "u" : "iu",
+  ).test(text);
+}
+
+/**
+ * Find the glossary rules that apply to a source string
+ * @param glossary - The glossary
+ * @param targetLocale - The target locale
+ * @param text - The source string
+ * @returns Expected translations keyed by the source terms found in `text`
+ */
+export function findGlossaryTerms(
+  glossary: Glossary,
+  targetLocale: string,
+  text: string,
+): Record<string, string> {
+  const caseSensitive = glossary.caseSensitive ?? true;
+  const rules: Record<string, string> = {};
+  for (const term of glossary.doNotTranslate ?? []) {
+    if (containsTerm(text, term, caseSensitive)) {
+      rules[term] = term;
+    }
+  }
+  const terms = glossary.terms?.[targetLocale] ?? {};
+  for (const [term, translation] of Object.entries(terms)) {
+    if (!(term in rules) && containsTerm(text, term, caseSensitive)) {
+      rules[term] = translation;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Build the glossary context of a chunk, limited to the terms it contains
+ * @param glossary - The glossary
+ * @param targetLocale - The target locale
+ * @param chunk - Source strings of the chunk
+ * @returns The context, or undefined when no term applies
+ */
+export function createGlossaryContext(
+  glossary: Glossary,
+  targetLocale: string,
+  chunk: Record<string, string>,
+): GlossaryContext | undefined {
+  const context: GlossaryContext = {
+    terms: {},
+    doNotTranslate: [],
+    caseSensitive: glossary.caseSensitive ?? true,
+  };
+  const doNotTranslate = new Set(glossary.doNotTranslate);
+  for (const text of Object.values(chunk)) {
+    const rules = findGlossaryTerms(glossary, targetLocale, text);
+    for (const [term, translation] of Object.entries(rules)) {
+      if (!doNotTranslate.has(term)) {
+        context.terms[term] = translation;
+      } else if (!context.doNotTranslate.includes(term)) {
+        context.doNotTranslate.push(term);
+      }
+    }
+  }
+  return Object.keys(context.terms).length > 0 ||
+      context.doNotTranslate.length > 0
+    ? context
+    : undefined;
+}
+
+/**
+ * Check translations against the glossary
+ * A term found in a source string must appear in its translation as the
+ * approved translation (or unchanged, for untranslatable terms).
+ * @param glossary - The glossary
+ * @param targetLocale - The target locale
+ * @param sources - Source strings by key
+ * @param translations - Translated strings by key
+ * @returns The violations, in key order
+ */
+export function checkGlossary(
+  glossary: Glossary,
+  targetLocale: string,
+  sources: Record<string, string>,
+  translations: Record<string, string>,
+): GlossaryViolation[] {
+  const caseSensitive = glossary.caseSensitive ?? true;
+  const normalize = (text: string) =>
+    caseSensitive ? text : text.toLocaleLowerCase(targetLocale);
+  const violations: GlossaryViolation[] = [];
+
+  for (const [key, translation] of Object.entries(translations)) {
+    const source = sources[key];
+    if (typeof source !== "string" || typeof translation !== "string") {
+      continue;
+    }
+    const rules = findGlossaryTerms(glossary, targetLocale, source);
+    for (const [term, expected] of Object.entries(rules)) {
+      // Substring match: scripts without spaces attach words to the term
+      if (!normalize(translation).includes(normalize(expected))) {
+        violations.push({ key, term, expected, translation });
+      }
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,1142 @@
+import { ValidationError } from "./errors.ts";
+import { getTextDirection } from "./locale.ts";
+
+const LOCALIZABLE_ATTRIBUTES: Record<string, string[]> = {
+  meta: ["content"],
+  img: ["alt"],
+  input: ["placeholder"],
+  a: ["title"],
+};
+
+const UNLOCALIZABLE_TAGS = ["script", "style", "code", "pre"];
+
+const INLINE_TAGS = [
+  "a",
+  "b",
+  "i",
+  "em",
+  "strong",
+  "span",
+  "code",
+  "br",
+  "img",
+];
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements whose content is text up to the matching end tag
+const RAW_TEXT_TAGS = new Set([
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+]);
+
+// Elements placed in <head> when they appear before the body content
+const HEAD_TAGS = new Set([
+  "base",
+  "basefont",
+  "bgsound",
+  "link",
+  "meta",
+  "noframes",
+  "script",
+  "style",
+  "template",
+  "title",
+]);
+
+// Start tags implicitly closing an open <p>
+const CLOSES_P = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "div",
+  "dl",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+// Open elements closed by a start tag, and the ancestors limiting the search
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; scope: string[] }> =
+  {
+    li: { closes: ["li"], scope: ["ul", "ol"] },
+    dt: { closes: ["dt", "dd"], scope: ["dl"] },
+    dd: { closes: ["dt", "dd"], scope: ["dl"] },
+    option: { closes: ["option"], scope: ["select", "datalist"] },
+    optgroup: { closes: ["option", "optgroup"], scope: ["select"] },
+    tr: { closes: ["tr", "td", "th"], scope: ["table"] },
+    td: { closes: ["td", "th"], scope: ["tr", "table"] },
+    th: { closes: ["td", "th"], scope: ["tr", "table"] },
+  };
+
+const SCOPE_BOUNDARIES = ["table", "td", "th", "button", "template"];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  euro: "€",
+  middot: "·",
+  bull: "•",
+};
+
+interface HtmlAttribute {
+  name: string;
+  /** Decoded value */
+  value: string;
+  /** Source range of the raw value (without quotes), or -1 without a value */
+  valueStart: number;
+  valueEnd: number;
+  /** Quote around the value: '"', "'" or "" when unquoted */
+  quote: string;
+  /** Source position right after the attribute */
+  end: number;
+}
+
+interface HtmlElement {
+  type: "element";
+  name: string;
+  attributes: HtmlAttribute[];
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+  /** Source range of the element; -1 for elements implied by the parser */
+  start: number;
+  end: number;
+  /** End of the start tag */
+  tagEnd: number;
+  /** Start of the end tag, or `end` when there is none */
+  closeStart: number;
+}
+
+interface HtmlText {
+  type: "text";
+  /** Source range of the raw text */
+  start: number;
+  end: number;
+  raw: string;
+  /** Whether the text is only whitespace */
+  blank: boolean;
+}
+
+interface HtmlEdit {
+  start: number;
+  end: number;
+  value: string;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+interface StartTag {
+  name: string;
+  attributes: HtmlAttribute[];
+  selfClosing: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * Options controlling what localizeHtml translates
+ */
+export interface HtmlLocalizationOptions {
+  /**
+   * Additional attributes to translate, keyed by tag name or "*" for any
+   * element, e.g. `{ "*": ["aria-label", "title"], button: ["value"] }`
+   */
+  localizableAttributes?: Record<string, string[]>;
+  /**
+   * CSS selectors of elements left untranslated along with their content,
+   * e.g. `[".brand", "nav > .logo"]`. Supports type, id, class and attribute
+   * selectors combined with descendant and child combinators.
+   */
+  skipSelectors?: string[];
+  /**
+   * Translate the inline content of a block as one segment, with inline
+   * elements turned into numbered tags: `Click <0>here</0> to continue`.
+   * Translations may reorder the tags as the target language requires.
+   */
+  segmentInlineMarkup?: boolean;
+  /**
+   * Elements treated as inline when segmenting
+   * (default: a, b, i, em, strong, span, code, br, img)
+   */
+  inlineTags?: string[];
+}
+
+/**
+ * The parts of an element the HTML rules look at
+ * Implemented by both DOM elements and the built-in tokenizer's tree.
+ */
+export interface HtmlElementView {
+  name: string;
+  getAttribute(name: string): string | null;
+  parent: HtmlElementView | null;
+}
+
+/**
+ * Decide which elements and attributes of a document get translated
+ */
+export interface HtmlRules {
+  /** Attributes to translate on an element */
+  attributesFor(element: HtmlElementView): string[];
+  /**
+   * Whether an element and its attributes are translated
+   * Returns null when the element and its whole subtree are skipped.
+   * @param element - The element
+   * @param inherited - Whether the parent element is translated
+   */
+  translates(element: HtmlElementView, inherited: boolean): boolean | null;
+  /** Whether inline content is translated as segments */
+  segmentsInline: boolean;
+  /** Whether an element is inline content of a segment */
+  isInline(element: HtmlElementView): boolean;
+}
+
+interface AttributeSelector {
+  name: string;
+  operator: string | null;
+  value: string;
+}
+
+interface CompoundSelector {
+  tag: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeSelector[];
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  /** Combinators between consecutive compounds */
+  combinators: Array<" " | ">">;
+}
+
+const COMPOUND_SELECTOR =
+  /^(\*|[a-zA-Z][\w-]*)?((?:#[\w-]+|\.[\w-]+|\[\s*[\w:-]+\s*(?:[~|^$*]?=\s*(?:"[^"]*"|'[^']*'|[^\]\s]+)\s*)?\])*)/;
+const SELECTOR_PART =
+  /#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]/g;
+
+function parseSelector(selector: string): ComplexSelector {
+  const complex: ComplexSelector = { compounds: [], combinators: [] };
+  let rest = selector.trim();
+  let combinator: " " | ">" | null = null;
+
+  while (rest) {
+    if (complex.compounds.length > 0) {
+      const match = /^\s*(>)?\s*/.exec(rest)!;
+      combinator = match[1] ? ">" : " ";
+      rest = rest.slice(match[0].length);
+    }
+    const match = COMPOUND_SELECTOR.exec(rest);
+    if (!match || !match[0]) {
+      throw new Error(`Unsupported selector: ${selector}`);
+    }
+
+    const compound: CompoundSelector = {
+      tag: match[1] && match[1] !== "*" ? match[1].toLowerCase() : null,
+      ids: [],
+      classes: [],
+      attributes: [],
+    };
+    for (const part of match[2].matchAll(SELECTOR_PART)) {
+      if (part[1]) {
+        compound.ids.push(part[1]);
+      } else if (part[2]) {
+        compound.classes.push(part[2]);
+      } else {
+        compound.attributes.push({
+          name: part[3].toLowerCase(),
+          operator: part[4] ?? null,
+          value: part[5] ?? part[6] ?? part[7] ?? "",
+        });
+      }
+    }
+    if (combinator) {
+      complex.combinators.push(combinator);
+    }
+    complex.compounds.push(compound);
+    rest = rest.slice(match[0].length);
+  }
+
+  if (complex.compounds.length === 0) {
+    throw new Error(`Unsupported selector: ${selector}`);
+  }
+  return complex;
+}
+
+function matchesAttribute(
+  value: string | null,
+  selector: AttributeSelector,
+): boolean {
+  if (value === null) {
+    return false;
+  }
+  const expected = selector.value;
+  switch (selector.operator) {
+    case null:
+      return true;
+    case "=":
+      return value === expected;
+    case "~=":
+      return value.split(/\s+/).includes(expected);
+    case "|=":
+      return value === expected || value.startsWith(`${expected}-`);
+    case "^=":
+      return expected !== "" && value.startsWith(expected);
+    case "$=":
+      return expected !== "" && value.endsWith(expected);
+    default:
+      return expected !== "" && value.includes(expected);
+  }
+}
+
+function matchesCompound(
+  element: HtmlElementView,
+  compound: CompoundSelector,
+): boolean {
+  if (compound.tag && compound.tag !== element.name) {
+    return false;
+  }
+  if (compound.ids.some((id) => element.getAttribute("id") !== id)) {
+    return false;
+  }
+  const classes = (element.getAttribute("class") ?? "").split(/\s+/);
+  if (compound.classes.some((name) => !classes.includes(name))) {
+    return false;
+  }
+  return compound.attributes.every((attribute) =>
+    matchesAttribute(element.getAttribute(attribute.name), attribute)
+  );
+}
+
+function matchesSelector(
+  element: HtmlElementView,
+  selector: ComplexSelector,
+  index = selector.compounds.length - 1,
+): boolean {
+  if (!matchesCompound(element, selector.compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  let ancestor = element.parent;
+  if (selector.combinators[index - 1] === ">") {
+    return !!ancestor && matchesSelector(ancestor, selector, index - 1);
+  }
+  while (ancestor) {
+    if (matchesSelector(ancestor, selector, index - 1)) {
+      return true;
+    }
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+/**
+ * Build the translation rules for a document
+ * Besides the configured skip selectors, script, style, code and pre elements,
+ * elements marked with `data-i18n-skip` and content under `translate="no"`
+ * (unless re-enabled with `translate="yes"`) are left untranslated.
+ * @param options - Additional attributes and skip selectors
+ * @returns The rules
+ */
+export function createHtmlRules(
+  options: HtmlLocalizationOptions = {},
+): HtmlRules {
+  const skipSelectors = (options.skipSelectors ?? []).flatMap((selector) =>
+    selector.split(",").map(parseSelector)
+  );
+  const extraAttributes = options.localizableAttributes ?? {};
+  const inlineTags = (options.inlineTags ?? INLINE_TAGS).map((tag) =>
+    tag.toLowerCase()
+  );
+
+  return {
+    attributesFor(element) {
+      return [
+        ...new Set([
+          ...(LOCALIZABLE_ATTRIBUTES[element.name] ?? []),
+          ...(extraAttributes[element.name] ?? []),
+          ...(extraAttributes["*"] ?? []),
+        ]),
+      ].map((name) => name.toLowerCase());
+    },
+    translates(element, inherited) {
+      if (
+        UNLOCALIZABLE_TAGS.includes(element.name) ||
+        element.getAttribute("data-i18n-skip") !== null ||
+        skipSelectors.some((selector) => matchesSelector(element, selector))
+      ) {
+        return null;
+      }
+      const translate = element.getAttribute("translate")?.toLowerCase();
+      if (translate === "no") {
+        return false;
+      }
+      return translate === "yes" || translate === "" ? true : inherited;
+    },
+    segmentsInline: options.segmentInlineMarkup ?? false,
+    isInline(element) {
+      return inlineTags.includes(element.name);
+    },
+  };
+}
+
+/**
+ * Access to a document tree, for building inline segments
+ */
+export interface InlineTreeAdapter<N> {
+  /** Decoded text of a text node, or null for an element */
+  text(node: N): string | null;
+  /** View of an element node */
+  view(node: N): HtmlElementView;
+  /** Text and element children of an element, blank text included */
+  children(node: N): N[];
+}
+
+/**
+ * The inline content of a block, translated as one string
+ */
+export interface InlineSegment<N> {
+  /** Text with inline elements as numbered tags, e.g. "Click <0>here</0>" */
+  text: string;
+  /**
+   * Inline elements by tag number; opaque ones (void or untranslated
+   * elements) appear as "<n/>" and are kept whole
+   */
+  elements: Array<{ node: N; opaque: boolean }>;
+}
+
+/**
+ * A piece of a translated segment
+ */
+export type SegmentPart =
+  | { type: "text"; text: string }
+  | { type: "open" | "close" | "opaque"; index: number };
+
+const HTML_WHITESPACE = /[ \t\n\r\f]+/g;
+const SEGMENT_TAG = /<(\/?)(\d+)(\/?)>/g;
+
+/**
+ * Build the inline segment of an element
+ * @param node - The block element
+ * @param adapter - Access to the document tree
+ * @param rules - The document rules
+ * @returns The segment, or null when segmenting is disabled or the element
+ *   does not mix text with inline elements only
+ */
+export function createInlineSegment<N>(
+  node: N,
+  adapter: InlineTreeAdapter<N>,
+  rules: HtmlRules,
+): InlineSegment<N> | null {
+  const children = adapter.children(node);
+  if (
+    !rules.segmentsInline ||
+    !children.some((child) => adapter.text(child)?.trim()) ||
+    !children.some((child) => adapter.text(child) === null)
+  ) {
+    return null;
+  }
+
+  const elements: InlineSegment<N>["elements"] = [];
+  const serialize = (nodes: N[]): string | null => {
+    let result = "";
+    for (const child of nodes) {
+      const text = adapter.text(child);
+      if (text !== null) {
+        result += text;
+        continue;
+      }
+      const view = adapter.view(child);
+      if (!rules.isInline(view)) {
+        return null;
+      }
+      const index = elements.length;
+      const grandchildren = adapter.children(child);
+      if (!rules.translates(view, true) || grandchildren.length === 0) {
+        elements.push({ node: child, opaque: true });
+        result += `<${index}/>`;
+        continue;
+      }
+      elements.push({ node: child, opaque: false });
+      const inner = serialize(grandchildren);
+      if (inner === null) {
+        return null;
+      }
+      result += `<${index}>${inner}</${index}>`;
+    }
+    return result;
+  };
+
+  const text = serialize(children);
+  return text === null ? null : {
+    text: text.replace(HTML_WHITESPACE, " ").trim(),
+    elements,
+  };
+}
+
+/**
+ * Split a translated segment into text and inline element parts
+ * Throws a ValidationError when tags were lost, duplicated or badly nested.
+ * @param segment - The source segment
+ * @param translated - Its translation
+ * @param key - Key of the segment, for error messages
+ * @returns The parts, in translation order
+ */
+export function restoreSegment<N>(
+  segment: InlineSegment<N>,
+  translated: string,
+  key: string,
+): SegmentPart[] {
+  const mismatch = () =>
+    new ValidationError(
+      `Markup mismatch in "${key}": expected "${segment.text}", got "${translated}"`,
+    );
+  const parts: SegmentPart[] = [];
+  const seen = new Set<number>();
+  const open: number[] = [];
+  let position = 0;
+
+  for (const match of translated.matchAll(SEGMENT_TAG)) {
+    if (match.index! > position) {
+      parts.push({
+        type: "text",
+        text: translated.slice(position, match.index),
+      });
+    }
+    position = match.index! + match[0].length;
+
+    const index = Number(match[2]);
+    const element = segment.elements[index];
+    if (!element) {
+      throw mismatch();
+    }
+    if (match[1]) {
+      if (open.pop() !== index) {
+        throw mismatch();
+      }
+      parts.push({ type: "close", index });
+      continue;
+    }
+    if (seen.has(index) || element.opaque !== (match[3] === "/")) {
+      throw mismatch();
+    }
+    seen.add(index);
+    if (element.opaque) {
+      parts.push({ type: "opaque", index });
+    } else {
+      open.push(index);
+      parts.push({ type: "open", index });
+    }
+  }
+  if (position < translated.length) {
+    parts.push({ type: "text", text: translated.slice(position) });
+  }
+
+  if (open.length > 0 || seen.size !== segment.elements.length) {
+    throw mismatch();
+  }
+  return parts;
+}
+
+/**
+ * View a DOM element through the HTML rules
+ * @param element - The DOM element
+ * @returns The element view
+ */
+export function domElementView(element: Element): HtmlElementView {
+  return {
+    name: element.tagName.toLowerCase(),
+    getAttribute: (name) => element.getAttribute(name),
+    get parent() {
+      return element.parentElement && domElementView(element.parentElement);
+    },
+  };
+}
+
+function viewOf(element: HtmlElement): HtmlElementView {
+  return {
+    name: element.name,
+    getAttribute: (name) =>
+      element.attributes.find((attribute) => attribute.name === name)?.value ??
+        null,
+    get parent() {
+      return element.parent && viewOf(element.parent);
+    },
+  };
+}
+
+/**
+ * Decode HTML character references
+ * @param text - Raw HTML text
+ * @returns The decoded text
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([a-zA-Z]+));/g,
+    (match, decimal, hex, name) => {
+      if (decimal || hex) {
+        const codePoint = parseInt(decimal ?? hex, decimal ? 10 : 16);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+      }
+      return NAMED_ENTITIES[name] ?? match;
+    },
+  );
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(
+    />/g,
+    "&gt;",
+  );
+}
+
+function escapeAttribute(text: string, quote: string): string {
+  const escaped = text.replace(/&/g, "&amp;");
+  return quote === "'"
+    ? escaped.replace(/'/g, "&#39;")
+    : escaped.replace(/"/g, "&quot;");
+}
+
+function createElement(
+  name: string,
+  attributes: HtmlAttribute[],
+  parent: HtmlElement | null,
+  tag?: StartTag,
+): HtmlElement {
+  return {
+    type: "element",
+    name,
+    attributes,
+    children: [],
+    parent,
+    start: tag?.start ?? -1,
+    end: -1,
+    tagEnd: tag?.end ?? -1,
+    closeStart: -1,
+  };
+}
+
+// Children addressed by key paths: elements and non-blank text
+function significantChildren(element: HtmlElement): HtmlNode[] {
+  return element.children.filter((child) =>
+    child.type === "element" || !child.blank
+  );
+}
+
+// Parse the start tag beginning at `start` (the "<" character)
+function parseStartTag(html: string, start: number): StartTag | null {
+  const nameMatch = /^<([a-zA-Z][^\s/>]*)/.exec(html.slice(start, start + 256));
+  if (!nameMatch) {
+    return null;
+  }
+
+  const attributes: HtmlAttribute[] = [];
+  let i = start + nameMatch[0].length;
+  while (i < html.length) {
+    while (/\s/.test(html[i] ?? "")) i++;
+    if (i >= html.length) {
+      return null;
+    }
+    if (html[i] === ">") {
+      return {
+        name: nameMatch[1].toLowerCase(),
+        attributes,
+        selfClosing: false,
+        start,
+        end: i + 1,
+      };
+    }
+    if (html.startsWith("/>", i)) {
+      return {
+        name: nameMatch[1].toLowerCase(),
+        attributes,
+        selfClosing: true,
+        start,
+        end: i + 2,
+      };
+    }
+    if (html[i] === "/") {
+      i++;
+      continue;
+    }
+
+    const nameStart = i;
+    i++;
+    while (i < html.length && !/[\s/>=]/.test(html[i])) i++;
+    const attribute: HtmlAttribute = {
+      name: html.slice(nameStart, i).toLowerCase(),
+      value: "",
+      valueStart: -1,
+      valueEnd: -1,
+      quote: "",
+      end: i,
+    };
+
+    let j = i;
+    while (/\s/.test(html[j] ?? "")) j++;
+    if (html[j] === "=") {
+      j++;
+      while (/\s/.test(html[j] ?? "")) j++;
+      const quote = html[j] === '"' || html[j] === "'" ? html[j] : "";
+      if (quote) {
+        const close = html.indexOf(quote, j + 1);
+        if (close === -1) {
+          return null;
+        }
+        attribute.valueStart = j + 1;
+        attribute.valueEnd = close;
+        i = close + 1;
+      } else {
+        const valueEnd = j + (/^[^\s>]*/.exec(html.slice(j))?.[0].length ?? 0);
+        attribute.valueStart = j;
+        attribute.valueEnd = valueEnd;
+        i = valueEnd;
+      }
+      attribute.quote = quote;
+      attribute.value = decodeEntities(
+        html.slice(attribute.valueStart, attribute.valueEnd),
+      );
+      attribute.end = i;
+    }
+
+    if (!attributes.some((existing) => existing.name === attribute.name)) {
+      attributes.push(attribute);
+    }
+  }
+  return null;
+}
+
+/**
+ * A parsed HTML document with its localizable content
+ */
+export interface HtmlDocument {
+  /**
+   * Strings to translate, keyed by the same paths as the DOMParser code path,
+   * e.g. "body/0/1" for text and "head/1#content" for attributes
+   */
+  content: Record<string, string>;
+  /**
+   * Rebuild the document with translated strings and updated lang/dir attributes
+   * Only the translated ranges change; the rest of the source is kept verbatim.
+   */
+  render(localized: Record<string, string>, locale: string): string;
+}
+
+/**
+ * Parse an HTML document without DOM APIs
+ * Builds just enough of a tree (implicit head/body, void elements, optional
+ * end tags) to address nodes like a browser would, and records the source
+ * range of every localizable string so translations are swapped in exactly
+ * where the original strings were.
+ * @param html - The HTML document
+ * @param rules - Which elements and attributes are translated
+ * @returns The localizable content and a function rendering translations
+ */
+export function parseHtml(
+  html: string,
+  rules: HtmlRules = createHtmlRules(),
+): HtmlDocument {
+  const root = createElement("html", [], null);
+  const head = createElement("head", [], root);
+  const body = createElement("body", [], root);
+  let htmlTag: StartTag | null = null;
+  let inBody = false;
+  let stack: HtmlElement[] = [];
+
+  const current = () => stack[stack.length - 1] ?? (inBody ? body : head);
+
+  // Close the open elements from `index` up, at the given source position
+  const closeFrom = (index: number, position: number) => {
+    for (const element of stack.slice(index)) {
+      element.closeStart = position;
+      element.end = position;
+    }
+    stack = stack.slice(0, index);
+  };
+
+  const enterBody = (position: number) => {
+    if (!inBody) {
+      closeFrom(0, position);
+      inBody = true;
+    }
+  };
+
+  const closeImplied = (
+    names: string[],
+    scope: string[],
+    position: number,
+  ) => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const name = stack[i].name;
+      if (names.includes(name)) {
+        closeFrom(i, position);
+        return;
+      }
+      if (scope.includes(name) || SCOPE_BOUNDARIES.includes(name)) {
+        return;
+      }
+    }
+  };
+
+  const openElement = (tag: StartTag) => {
+    if (tag.name === "html") {
+      if (!htmlTag) {
+        htmlTag = tag;
+        root.attributes = tag.attributes;
+      }
+      return;
+    }
+    if (tag.name === "head" || tag.name === "body") {
+      const element = tag.name === "head" ? head : body;
+      if (element.attributes.length === 0) {
+        element.attributes = tag.attributes;
+      }
+      if (tag.name === "body") {
+        enterBody(tag.start);
+      }
+      return;
+    }
+    if (!inBody && stack.length === 0 && !HEAD_TAGS.has(tag.name)) {
+      enterBody(tag.start);
+    }
+
+    if (CLOSES_P.has(tag.name)) {
+      closeImplied(["p"], [], tag.start);
+    }
+    const implied = IMPLIED_END_TAGS[tag.name];
+    if (implied) {
+      closeImplied(implied.closes, implied.scope, tag.start);
+    }
+    if (tag.name === "tr" && current().name === "table") {
+      const tbody = createElement("tbody", [], current());
+      current().children.push(tbody);
+      stack.push(tbody);
+    }
+
+    const element = createElement(tag.name, tag.attributes, current(), tag);
+    const foreign = tag.name === "svg" || tag.name === "math" ||
+      stack.some((open) => open.name === "svg" || open.name === "math");
+    current().children.push(element);
+    if (!VOID_TAGS.has(tag.name) && !(tag.selfClosing && foreign)) {
+      stack.push(element);
+    } else {
+      element.closeStart = tag.end;
+      element.end = tag.end;
+    }
+  };
+
+  const closeElement = (name: string, start: number, end: number) => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].name === name) {
+        const element = stack[i];
+        closeFrom(i, start);
+        element.end = end;
+        return;
+      }
+    }
+  };
+
+  const addText = (start: number, end: number) => {
+    if (start === end) {
+      return;
+    }
+    const raw = html.slice(start, end);
+    const text: HtmlText = {
+      type: "text",
+      start,
+      end,
+      raw,
+      blank: decodeEntities(raw).trim() === "",
+    };
+    if (!inBody && stack.length === 0 && !text.blank) {
+      enterBody(start);
+    }
+    current().children.push(text);
+  };
+
+  let i = 0;
+  let textStart = 0;
+  while (i < html.length) {
+    if (html[i] !== "<") {
+      i++;
+      continue;
+    }
+
+    let end = -1;
+    let tag: StartTag | null = null;
+    let closing: string | null = null;
+    if (html.startsWith("<!--", i)) {
+      const close = html.indexOf("-->", i + 4);
+      end = close === -1 ? html.length : close + 3;
+    } else if (html[i + 1] === "!" || html[i + 1] === "?") {
+      const close = html.indexOf(">", i);
+      end = close === -1 ? html.length : close + 1;
+    } else if (html[i + 1] === "/" && /[a-zA-Z]/.test(html[i + 2] ?? "")) {
+      const close = html.indexOf(">", i);
+      if (close !== -1) {
+        closing = /^<\/([^\s/>]+)/.exec(html.slice(i, close + 1))![1]
+          .toLowerCase();
+        end = close + 1;
+      }
+    } else {
+      tag = parseStartTag(html, i);
+      end = tag?.end ?? -1;
+    }
+
+    if (end === -1) {
+      i++;
+      continue;
+    }
+
+    addText(textStart, i);
+    if (tag) {
+      openElement(tag);
+      if (RAW_TEXT_TAGS.has(tag.name)) {
+        const pattern = new RegExp(`</${tag.name}[\\s/>]`, "i");
+        const match = pattern.exec(html.slice(end));
+        const contentEnd = match ? end + match.index : html.length;
+        addText(end, contentEnd);
+        end = contentEnd;
+      }
+    } else if (closing) {
+      closeElement(closing, i, end);
+    }
+    i = end;
+    textStart = end;
+  }
+  addText(textStart, html.length);
+  closeFrom(0, html.length);
+
+  const content: Record<string, string> = {};
+  const textRanges: Record<string, HtmlText> = {};
+  const attributeRanges: Record<string, HtmlAttribute> = {};
+  const segments: Record<
+    string,
+    { element: HtmlElement; segment: InlineSegment<HtmlNode> }
+  > = {};
+
+  const adapter: InlineTreeAdapter<HtmlNode> = {
+    text: (node) => node.type === "text" ? decodeEntities(node.raw) : null,
+    view: (node) => viewOf(node as HtmlElement),
+    children: (node) => (node as HtmlElement).children,
+  };
+
+  const visit = (
+    node: HtmlNode,
+    path: string,
+    inherited: boolean,
+    inSegment: boolean,
+  ) => {
+    if (node.type === "text") {
+      if (inherited && !inSegment) {
+        content[path] = decodeEntities(node.raw).trim();
+        textRanges[path] = node;
+      }
+      return;
+    }
+    const view = viewOf(node);
+    const translates = rules.translates(view, inherited);
+    if (translates === null) {
+      return;
+    }
+    if (translates) {
+      for (const name of rules.attributesFor(view)) {
+        const attribute = node.attributes.find((a) => a.name === name);
+        if (attribute?.value.trim() && attribute.valueStart !== -1) {
+          content[`${path}#${name}`] = attribute.value;
+          attributeRanges[`${path}#${name}`] = attribute;
+        }
+      }
+    }
+    const segment = translates && !inSegment
+      ? createInlineSegment<HtmlNode>(node, adapter, rules)
+      : null;
+    if (segment) {
+      content[path] = segment.text;
+      segments[path] = { element: node, segment };
+    }
+    significantChildren(node).forEach((child, index) =>
+      visit(child, `${path}/${index}`, translates, inSegment || !!segment)
+    );
+  };
+
+  const translatesRoot = rules.translates(viewOf(root), true);
+  for (const section of [head, body]) {
+    const translates = translatesRoot === null
+      ? null
+      : rules.translates(viewOf(section), translatesRoot);
+    if (translates !== null) {
+      significantChildren(section).forEach((child, index) =>
+        visit(child, `${section.name}/${index}`, translates, false)
+      );
+    }
+  }
+
+  // Copy a source range, applying the edits that fall within it
+  const renderRange = (start: number, end: number, edits: HtmlEdit[]) => {
+    let result = "";
+    let position = start;
+    for (const edit of edits) {
+      if (edit.start < position || edit.end > end) {
+        continue;
+      }
+      result += html.slice(position, edit.start) + edit.value;
+      position = edit.end;
+    }
+    return result + html.slice(position, end);
+  };
+
+  return {
+    content,
+    render(localized, locale) {
+      const edits: HtmlEdit[] = [];
+
+      for (const [path, value] of Object.entries(localized)) {
+        const text = textRanges[path];
+        const attribute = attributeRanges[path];
+        if (text) {
+          const leading = /^\s*/.exec(text.raw)![0].length;
+          const trailing = /\s*$/.exec(text.raw)![0].length;
+          edits.push({
+            start: text.start + leading,
+            end: text.end - trailing,
+            value: escapeText(value),
+          });
+        } else if (attribute) {
+          const escaped = escapeAttribute(value, attribute.quote);
+          edits.push({
+            start: attribute.valueStart,
+            end: attribute.valueEnd,
+            value: attribute.quote ? escaped : `"${escaped}"`,
+          });
+        }
+      }
+      edits.sort((a, b) => a.start - b.start);
+
+      const segmentEdits: HtmlEdit[] = [];
+      for (const [path, value] of Object.entries(localized)) {
+        if (!segments[path]) {
+          continue;
+        }
+        const { element, segment } = segments[path];
+        const parts = restoreSegment(segment, value, path);
+        const rendered = parts.map((part) => {
+          if (part.type === "text") {
+            return escapeText(part.text);
+          }
+          const inline = segment.elements[part.index].node as HtmlElement;
+          return part.type === "open"
+            ? renderRange(inline.start, inline.tagEnd, edits)
+            : part.type === "close"
+            ? html.slice(inline.closeStart, inline.end)
+            : renderRange(inline.start, inline.end, edits);
+        }).join("");
+
+        const first = element.children[0];
+        const last = element.children[element.children.length - 1];
+        const inner = html.slice(first.start, last.end);
+        segmentEdits.push({
+          start: first.start + /^\s*/.exec(inner)![0].length,
+          end: last.end - /\s*$/.exec(inner)![0].length,
+          value: rendered,
+        });
+      }
+
+      // Set an attribute of the <html> tag; missing ones are only added if asked
+      const setRootAttribute = (name: string, value: string, add: boolean) => {
+        const attribute = htmlTag!.attributes.find((a) => a.name === name);
+        if (attribute && attribute.valueStart !== -1) {
+          edits.push({
+            start: attribute.valueStart,
+            end: attribute.valueEnd,
+            value: attribute.quote ? value : `"${value}"`,
+          });
+        } else if (attribute) {
+          edits.push({
+            start: attribute.end,
+            end: attribute.end,
+            value: `="${value}"`,
+          });
+        } else if (add) {
+          const position = htmlTag!.start + "<html".length;
+          edits.push({
+            start: position,
+            end: position,
+            value: ` ${name}="${value}"`,
+          });
+        }
+      };
+
+      if (htmlTag) {
+        const direction = getTextDirection(locale);
+        setRootAttribute("lang", locale, true);
+        setRootAttribute("dir", direction, direction === "rtl");
+      }
+
+      // Segments come first so the edits they already include are skipped
+      const allEdits = [...segmentEdits, ...edits].sort((a, b) =>
+        a.start - b.start
+      );
+      return renderRange(0, html.length, allEdits);
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * What an incremental localization did with every string, keyed by the
+ * "/"-separated leaf paths used by localizeObject
+ */
+export interface LocalizationChangeset {
+  /** Strings new in the source, translated */
+  added: string[];
+  /** Strings whose source text changed, translated again */
+  changed: string[];
+  /** Unchanged strings without a previous translation, translated */
+  missing: string[];
+  /** Unchanged strings whose previous translation was kept */
+  unchanged: string[];
+  /** Strings of the previous source that are gone, with their translation */
+  removed: string[];
+}
+
+/**
+ * The outcome of comparing a source against the previous one
+ */
+export interface SourceDiff {
+  /** Strings to send for translation */
+  pending: Record<string, string>;
+  /** Previous translations still valid */
+  reused: Record<string, string>;
+  changes: LocalizationChangeset;
+}
+
+/**
+ * Compare flattened source strings against the previous source and translation
+ * A string is reused when its source text is the same as before and it has a
+ * previous translation; every other string is pending.
+ * @param source - Current source strings by path
+ * @param previousSource - Source strings of the previous translation by path
+ * @param previousTarget - Previous translation by path
+ * @returns Pending strings, reused translations and the changeset, in the
+ *   order of `source` (and of `previousSource` for removed strings)
+ */
+export function diffSources(
+  source: Record<string, string>,
+  previousSource: Record<string, string>,
+  previousTarget: Record<string, string>,
+): SourceDiff {
+  const pending: Record<string, string> = {};
+  const reused: Record<string, string> = {};
+  const changes: LocalizationChangeset = {
+    added: [],
+    changed: [],
+    missing: [],
+    unchanged: [],
+    removed: [],
+  };
+
+  for (const [path, text] of Object.entries(source)) {
+    if (!(path in previousSource)) {
+      changes.added.push(path);
+    } else if (previousSource[path] !== text) {
+      changes.changed.push(path);
+    } else if (!(path in previousTarget)) {
+      changes.missing.push(path);
+    } else {
+      changes.unchanged.push(path);
+      reused[path] = previousTarget[path];
+      continue;
+    }
+    pending[path] = text;
+  }
+  changes.removed = Object.keys(previousSource).filter((path) =>
+    !(path in source)
+  );
+
+  return { pending, reused, changes };
+}
@@ -0,0 +1,182 @@
+import { ValidationError } from "./errors.ts";
+import { LOCALE_CODES, type LocaleCode } from "./types.ts";
+
+/**
+ * Locales supported by the Lingo.dev API
+ */
+export interface SupportedLocales {
+  /** Locales accepted as source locale */
+  source: string[];
+  /** Locales accepted as target locale */
+  target: string[];
+  /** Target locales that support fast mode, unknown when not listed */
+  fast?: string[];
+}
+
+/**
+ * Metadata of a locale
+ */
+export interface LocaleInfo {
+  /** Canonical BCP 47 tag, e.g. "zh-Hant-TW" */
+  code: string;
+  /** Language subtag, e.g. "zh" */
+  language: string;
+  /** Script subtag, explicit or the likely one for the language, e.g. "Hant" */
+  script: string;
+  /** Region subtag, if any, e.g. "TW" */
+  region?: string;
+  /** Text direction of the script */
+  direction: "ltr" | "rtl";
+  /** Whether the engine supports the locale as is */
+  supported: boolean;
+}
+
+const SUPPORTED_LOCALES = new Set<string>(LOCALE_CODES);
+
+// Scripts written right to left
+const RTL_SCRIPTS = new Set([
+  "Adlm",
+  "Arab",
+  "Hebr",
+  "Mand",
+  "Nkoo",
+  "Rohg",
+  "Samr",
+  "Syrc",
+  "Thaa",
+]);
+
+/**
+ * Canonicalize a BCP 47 language tag
+ * Accepts underscores and any letter case, and replaces deprecated subtags
+ * ("es_mx" → "es-MX", "iw" → "he").
+ * @param tag - The language tag
+ * @returns The canonical tag
+ * @throws ValidationError when the tag is not a valid BCP 47 tag
+ */
+export function canonicalizeLocale(tag: string): string {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(tag.trim().replace(/_/g, "-"));
+    if (canonical) {
+      return canonical;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError(`Invalid locale code "${tag}"`);
+}
+
+/**
+ * Whether a string is a locale code supported by the engine, as written
+ * @param code - The locale code
+ * @returns True for supported codes
+ */
+export function isSupportedLocale(code: string): code is LocaleCode {
+  return SUPPORTED_LOCALES.has(code);
+}
+
+// Supported-code candidates for a tag with a script subtag, e.g. "zh-TW" for
+// "zh-Hant", keeping only codes whose likely script is the requested one
+function scriptCandidates(locale: Intl.Locale): string[] {
+  const { language, script } = locale;
+  if (!script) {
+    return [];
+  }
+  const likelyScript = (tag: string) => new Intl.Locale(tag).maximize().script;
+  const region = locale.region ??
+    new Intl.Locale(`${language}-${script}`).maximize().region;
+  return [
+    ...(region ? [`${language}-${script}-${region}`] : []),
+    ...(region && likelyScript(`${language}-${region}`) === script
+      ? [`${language}-${region}`]
+      : []),
+    ...(likelyScript(language) === script ? [language] : []),
+  ];
+}
+
+/**
+ * Canonicalize a language tag and check that the engine supports it
+ * Extensions such as "-u-ca-gregory" are dropped when the tag is otherwise
+ * supported, and script subtags are mapped to the region or language written
+ * in that script ("zh-Hant" → "zh-TW", "zh-Hans" → "zh-CN").
+ * @param tag - The language tag, e.g. "EN-us" or "pt_BR"
+ * @param supportedLocales - Supported locales (default: the built-in list)
+ * @returns The supported locale code
+ * @throws ValidationError when the tag is invalid or not supported
+ */
+export function normalizeLocale(
+  tag: string,
+  supportedLocales: Iterable<string> = SUPPORTED_LOCALES,
+): LocaleCode {
+  const supported = new Set(supportedLocales);
+  const canonical = canonicalizeLocale(tag);
+  const locale = new Intl.Locale(canonical);
+  for (
+    const candidate of [canonical, locale.baseName, ...scriptCandidates(locale)]
+  ) {
+    if (supported.has(candidate)) {
+      return candidate as LocaleCode;
+    }
+  }
+  throw new ValidationError(`Unsupported locale "${tag}"`);
+}
+
+/**
+ * Resolve the supported locales to try for a language tag, most specific first
+ * Subtags are dropped one at a time ("zh-Hant-TW" → "zh-TW" → "zh"), and the
+ * source locale, when given, ends the chain ("pt-BR" → "pt" → "en").
+ * @param tag - The language tag
+ * @param sourceLocale - Optional source locale ending the chain
+ * @param supportedLocales - Supported locales (default: the built-in list)
+ * @returns The supported locales, without duplicates
+ */
+export function getLocaleFallbacks(
+  tag: string,
+  sourceLocale?: string | null,
+  supportedLocales: Iterable<string> = SUPPORTED_LOCALES,
+): LocaleCode[] {
+  const supported = new Set(supportedLocales);
+  const locale = new Intl.Locale(canonicalizeLocale(tag));
+  const { language, script, region } = locale;
+  const candidates = [
+    locale.baseName,
+    ...(script && region ? [`${language}-${region}`] : []),
+    ...(script ? [`${language}-${script}`] : []),
+    language,
+  ];
+  const fallbacks = candidates.filter((candidate) =>
+    supported.has(candidate)
+  ) as LocaleCode[];
+  if (sourceLocale) {
+    fallbacks.push(normalizeLocale(sourceLocale, supported));
+  }
+  return [...new Set(fallbacks)];
+}
+
+/**
+ * Describe a locale: its subtags, likely script and text direction
+ * @param tag - The language tag
+ * @returns The locale metadata
+ */
+export function getLocaleInfo(tag: string): LocaleInfo {
+  const code = canonicalizeLocale(tag);
+  const locale = new Intl.Locale(code);
+  const script = locale.script ?? locale.maximize().script ?? "Latn";
+  return {
+    code,
+    language: locale.language,
+    script,
+    region: locale.region,
+    direction: RTL_SCRIPTS.has(script) ? "rtl" : "ltr",
+    supported: isSupportedLocale(code),
+  };
+}
+
+/**
+ * Text direction of a locale, e.g. "rtl" for Arabic, Hebrew, Persian and Urdu
+ * @param tag - The language tag
+ * @returns "rtl" or "ltr"
+ */
+export function getTextDirection(tag: string): "ltr" | "rtl" {
+  return getLocaleInfo(tag).direction;
+}
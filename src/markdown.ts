@@ -0,0 +1,567 @@
+import { type InlineSegment, restoreSegment } from "./html.ts";
+
+/**
+ * Options controlling what localizeMarkdown translates
+ */
+export interface MarkdownLocalizationOptions {
+  /** Front matter keys whose values are translated (default: title, description, summary) */
+  frontMatterKeys?: string[];
+}
+
+/**
+ * A parsed Markdown document with its localizable content
+ */
+export interface MarkdownDocument {
+  /**
+   * Strings to translate, keyed by "frontmatter/<key>", "line/<n>" for the
+   * block starting on line n, or "line/<n>/<cell>" for table cells
+   */
+  content: Record<string, string>;
+  /**
+   * Rebuild the document with translated strings
+   * Everything but the translated prose is kept verbatim.
+   */
+  render(localized: Record<string, string>): string;
+}
+
+/** Markup around translated text, or kept whole when `close` is null */
+interface MarkdownInline {
+  open: string;
+  close: string | null;
+}
+
+interface MarkdownUnit {
+  /** Source range replaced by the translation */
+  start: number;
+  end: number;
+  /** Inline segment of prose; null for front matter values */
+  segment: InlineSegment<MarkdownInline> | null;
+  /**
+   * Source between the lines of a multi-line block (line break, block quote
+   * markers, indentation), reused when the translation has as many lines
+   */
+  separators: string[];
+  /**
+   * Prefix of the lines added by a translation, or null when the block must
+   * stay on one line
+   */
+  continuation: string | null;
+  /** Whether the unit is a table cell, whose pipes must be escaped */
+  cell?: boolean;
+  /** Quoting of a front matter value */
+  quote?: "yaml" | "yaml-double" | "yaml-single" | "toml";
+}
+
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+interface MarkdownLine {
+  start: number;
+  /** End of the line, without its line break */
+  end: number;
+  text: string;
+}
+
+interface Paragraph {
+  line: number;
+  /** Content of every line, without container prefixes and trailing spaces */
+  ranges: TextRange[];
+  continuation: string;
+}
+
+const DEFAULT_FRONT_MATTER_KEYS = ["title", "description", "summary"];
+
+const CONTAINER_PREFIX = /^((?:[ ]{0,3}>[ ]?)*)([ \t]*)/;
+const LIST_MARKER = /^([-*+]|\d{1,9}[.)])([ \t]+|$)(\[[ xX]\][ \t]+)?/;
+const FENCE = /^(`{3,}|~{3,})/;
+const THEMATIC_BREAK = /^([-*_])([ \t]*\1){2,}[ \t]*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)[ \t]*$/;
+const ATX_HEADING = /^(#{1,6})(?:[ \t]+|$)/;
+const LINK_REFERENCE_DEFINITION = /^\[(?!\^)[^\]]+\]:[ \t]*\S/;
+const FOOTNOTE_DEFINITION = /^\[\^[^\]]+\]:[ \t]*/;
+const HTML_BLOCK = /^<(?:[a-zA-Z][\w-]*(?:[\s>]|\/>|$)|\/[a-zA-Z]|!--)/;
+// HTML blocks that may interrupt a paragraph (CommonMark types 1 to 6);
+// other tags starting a line are inline HTML of the paragraph
+const HTML_BLOCK_INTERRUPT = new RegExp(
+  "^<(?:(?:script|pre|style|textarea)(?:[\\s>]|$)|!--|\\?|![a-zA-Z]|!\\[CDATA\\[|" +
+    "\\/?(?:address|article|aside|base|basefont|blockquote|body|caption|" +
+    "center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|" +
+    "figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|" +
+    "html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|" +
+    "optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|" +
+    "th|thead|title|tr|track|ul)(?:[\\s>]|\\/>|$))",
+  "i",
+);
+const TABLE_DELIMITER =
+  /^\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const CODE_SPAN = /^(`+)([\s\S]*?[^`])\1(?!`)/;
+const AUTOLINK =
+  /^<(?:[a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[^\s<>@]+@[^\s<>@]+)>/;
+const INLINE_HTML = /^(?:<\/?[a-zA-Z][\w-]*(?:\s[^<>]*)?\/?>|<!--[\s\S]*?-->)/;
+const FOOTNOTE_REFERENCE = /^\[\^[^\]\s]+\]/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,;:!?'")\]*_~]/;
+
+function splitLines(markdown: string): MarkdownLine[] {
+  const lines: MarkdownLine[] = [];
+  let start = 0;
+  while (start <= markdown.length) {
+    const newline = markdown.indexOf("\n", start);
+    const next = newline === -1 ? markdown.length : newline;
+    const end = markdown[next - 1] === "\r" ? next - 1 : next;
+    lines.push({ start, end, text: markdown.slice(start, end) });
+    if (newline === -1) {
+      break;
+    }
+    start = newline + 1;
+  }
+  return lines;
+}
+
+// Find the bracket closing the one at `start`, skipping escapes and nesting
+function findClosing(
+  text: string,
+  start: number,
+  open: string,
+  close: string,
+): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Turn inline Markdown into a segment: link and image text stays
+ * translatable, while code spans, URLs, HTML and footnote references become
+ * numbered tags kept as they are
+ */
+function parseInline(source: string): InlineSegment<MarkdownInline> {
+  const elements: InlineSegment<MarkdownInline>["elements"] = [];
+
+  const keep = (raw: string) => {
+    elements.push({ node: { open: raw, close: null }, opaque: true });
+    return `<${elements.length - 1}/>`;
+  };
+
+  const scan = (text: string): string => {
+    let result = "";
+    let i = 0;
+    while (i < text.length) {
+      const rest = text.slice(i);
+      const match = CODE_SPAN.exec(rest) ?? AUTOLINK.exec(rest) ??
+        INLINE_HTML.exec(rest) ?? FOOTNOTE_REFERENCE.exec(rest) ??
+        (/[\s(]/.test(text[i - 1] ?? " ") ? BARE_URL.exec(rest) : null);
+      if (text[i] === "\\") {
+        result += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (match) {
+        result += keep(match[0]);
+        i += match[0].length;
+        continue;
+      }
+
+      const open = text[i] === "[" ? "[" : rest.startsWith("![") ? "![" : null;
+      const labelEnd = open
+        ? findClosing(text, i + open.length - 1, "[", "]")
+        : -1;
+      const destinationEnd = labelEnd === -1
+        ? -1
+        : text[labelEnd + 1] === "("
+        ? findClosing(text, labelEnd + 1, "(", ")")
+        : text[labelEnd + 1] === "["
+        ? text.indexOf("]", labelEnd + 1)
+        : -1;
+      if (open && destinationEnd !== -1) {
+        const label = text.slice(i + open.length, labelEnd);
+        const close = text.slice(labelEnd, destinationEnd + 1);
+        if (label.trim()) {
+          const index = elements.length;
+          elements.push({ node: { open, close }, opaque: false });
+          result += `<${index}>${scan(label)}</${index}>`;
+        } else {
+          result += keep(text.slice(i, destinationEnd + 1));
+        }
+        i = destinationEnd + 1;
+        continue;
+      }
+
+      result += text[i];
+      i++;
+    }
+    return result;
+  };
+
+  return { text: scan(source), elements };
+}
+
+// Whether a segment contains anything worth translating besides tags
+function hasProse(segment: InlineSegment<MarkdownInline>): boolean {
+  return /[\p{L}\p{N}]/u.test(segment.text.replace(/<\/?\d+\/?>/g, ""));
+}
+
+// Split a table row into cell ranges, ignoring pipes in code and escapes
+function splitCells(line: string): Array<{ start: number; end: number }> {
+  const cells: Array<{ start: number; end: number }> = [];
+  let cellStart = 0;
+  let inCode = false;
+  for (let i = 0; i <= line.length; i++) {
+    if (line[i] === "\\") {
+      i++;
+    } else if (line[i] === "`") {
+      inCode = !inCode;
+    } else if (i === line.length || (line[i] === "|" && !inCode)) {
+      cells.push({ start: cellStart, end: i });
+      cellStart = i + 1;
+    }
+  }
+  return cells;
+}
+
+function parseFrontMatter(
+  lines: MarkdownLine[],
+  keys: string[],
+  units: Record<string, MarkdownUnit>,
+  content: Record<string, string>,
+): number {
+  const fence = lines[0]?.text;
+  if (fence !== "---" && fence !== "+++") {
+    return 0;
+  }
+  const toml = fence === "+++";
+  const close = lines.findIndex((line, index) =>
+    index > 0 && (line.text === fence || (!toml && line.text === "..."))
+  );
+  if (close === -1) {
+    return 0;
+  }
+
+  const pattern = toml
+    ? /^([A-Za-z_][\w-]*)[ \t]*=[ \t]*"((?:[^"\\]|\\.)*)"[ \t]*$/
+    : /^([A-Za-z_][\w-]*):[ \t]+(.*?)[ \t]*$/;
+  for (const line of lines.slice(1, close)) {
+    const match = pattern.exec(line.text);
+    if (!match || !keys.includes(match[1])) {
+      continue;
+    }
+    const raw = match[2];
+    const offset = line.start + line.text.lastIndexOf(raw);
+    let value = raw;
+    let unit: MarkdownUnit = {
+      start: offset,
+      end: offset + raw.length,
+      segment: null,
+      separators: [],
+      continuation: null,
+      quote: toml ? "toml" : "yaml",
+    };
+
+    if (toml || /^"(?:[^"\\]|\\.)*"$/.test(raw)) {
+      try {
+        value = JSON.parse(toml ? `"${raw}"` : raw);
+      } catch {
+        continue;
+      }
+      unit = { ...unit, quote: toml ? "toml" : "yaml-double" };
+    } else if (/^'(?:[^']|'')*'$/.test(raw)) {
+      value = raw.slice(1, -1).replace(/''/g, "'");
+      unit = { ...unit, quote: "yaml-single" };
+    } else if (/^[|>&*!%@`[{]/.test(raw) || raw.includes(" #")) {
+      continue;
+    }
+
+    if (value.trim()) {
+      content[`frontmatter/${match[1]}`] = value;
+      units[`frontmatter/${match[1]}`] = unit;
+    }
+  }
+  return close + 1;
+}
+
+function renderFrontMatterValue(
+  value: string,
+  quote: MarkdownUnit["quote"],
+): string {
+  switch (quote) {
+    case "toml":
+      return JSON.stringify(value).slice(1, -1);
+    case "yaml-double":
+      return JSON.stringify(value);
+    case "yaml-single":
+      return `'${value.replace(/'/g, "''")}'`;
+    default:
+      return /^[\s'"&*!|>%@`#{[\]-]|: | #|\s$|^$/.test(value)
+        ? JSON.stringify(value)
+        : value;
+  }
+}
+
+/**
+ * Parse a Markdown (CommonMark/GFM) document
+ * Headings, paragraphs, list items, block quotes, table cells, link and image
+ * text and selected front matter values are translated. Code blocks, inline
+ * code, URLs, HTML and link reference definitions are left alone.
+ * @param markdown - The Markdown document
+ * @param options - Front matter keys to translate
+ * @returns The localizable content and a function rendering translations
+ */
+export function parseMarkdown(
+  markdown: string,
+  options: MarkdownLocalizationOptions = {},
+): MarkdownDocument {
+  const lines = splitLines(markdown);
+  const content: Record<string, string> = {};
+  const units: Record<string, MarkdownUnit> = {};
+
+  const addProse = (
+    key: string,
+    ranges: TextRange[],
+    continuation: string | null,
+    cell = false,
+  ) => {
+    const first = ranges[0];
+    const last = ranges[ranges.length - 1];
+    const segment = parseInline(
+      ranges.map((range) => markdown.slice(range.start, range.end)).join("\n"),
+    );
+    if (hasProse(segment)) {
+      content[key] = segment.text;
+      units[key] = {
+        start: first.start,
+        end: last.end,
+        segment,
+        separators: ranges.slice(1).map((range, index) =>
+          markdown.slice(ranges[index].end, range.start)
+        ),
+        continuation,
+        cell,
+      };
+    }
+  };
+
+  const addCells = (index: number, rowStart: number, row: string) => {
+    splitCells(row).forEach((cell, column) => {
+      const text = row.slice(cell.start, cell.end);
+      const start = rowStart + cell.start + text.length -
+        text.trimStart().length;
+      addProse(
+        `line/${index + 1}/${column}`,
+        [
+          { start, end: start + text.trim().length },
+        ],
+        null,
+        true,
+      );
+    });
+  };
+
+  let paragraph: Paragraph | null = null;
+  const closeParagraph = () => {
+    if (paragraph) {
+      addProse(
+        `line/${paragraph.line + 1}`,
+        paragraph.ranges,
+        paragraph.continuation,
+      );
+      paragraph = null;
+    }
+  };
+
+  let fence: string | null = null;
+  let inHtmlBlock = false;
+  let inTable = false;
+  let inList = false;
+
+  const first = parseFrontMatter(
+    lines,
+    options.frontMatterKeys ?? DEFAULT_FRONT_MATTER_KEYS,
+    units,
+    content,
+  );
+  for (let index = first; index < lines.length; index++) {
+    const line = lines[index];
+    const [prefix, quotes, indent] = CONTAINER_PREFIX.exec(line.text)!;
+    const rest = line.text.slice(prefix.length).trimEnd();
+    const contentStart = line.start + prefix.length;
+
+    if (fence) {
+      if (rest.startsWith(fence) && /^[`~]+$/.test(rest)) {
+        fence = null;
+      }
+      continue;
+    }
+    if (inHtmlBlock) {
+      inHtmlBlock = rest !== "";
+      continue;
+    }
+    if (rest === "") {
+      closeParagraph();
+      inTable = false;
+      continue;
+    }
+    if (inTable && rest.includes("|")) {
+      addCells(index, contentStart, rest);
+      continue;
+    }
+    inTable = false;
+    if (!indent && !LIST_MARKER.test(rest)) {
+      inList = false;
+    }
+
+    const fenceMatch = FENCE.exec(rest);
+    if (fenceMatch) {
+      closeParagraph();
+      fence = fenceMatch[1];
+      continue;
+    }
+    if (indent.length >= 4 && !paragraph && !inList) {
+      continue;
+    }
+    if (
+      (paragraph && SETEXT_UNDERLINE.test(rest)) || THEMATIC_BREAK.test(rest)
+    ) {
+      closeParagraph();
+      continue;
+    }
+    if (paragraph && indent.length < 4 && HTML_BLOCK_INTERRUPT.test(rest)) {
+      closeParagraph();
+      inHtmlBlock = true;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(rest);
+    if (heading) {
+      closeParagraph();
+      const text = rest.slice(heading[0].length).replace(/[ \t]+#+$|^#+$/, "");
+      const start = contentStart + heading[0].length;
+      addProse(
+        `line/${index + 1}`,
+        [{ start, end: start + text.length }],
+        null,
+      );
+      continue;
+    }
+
+    const listMarker = LIST_MARKER.exec(rest);
+    const footnote = paragraph ? null : FOOTNOTE_DEFINITION.exec(rest);
+    const marker: string | undefined = listMarker?.[0] ?? footnote?.[0];
+    if (marker !== undefined) {
+      closeParagraph();
+      inList = inList || !!listMarker;
+      const text = rest.slice(marker.length);
+      const start: number = contentStart + marker.length + text.length -
+        text.trimStart().length;
+      if (text.trim()) {
+        paragraph = {
+          line: index,
+          ranges: [{ start, end: start + text.trim().length }],
+          continuation: quotes + " ".repeat(start - line.start - quotes.length),
+        };
+      }
+      continue;
+    }
+
+    if (!paragraph) {
+      if (LINK_REFERENCE_DEFINITION.test(rest)) {
+        continue;
+      }
+      if (HTML_BLOCK.test(rest)) {
+        inHtmlBlock = true;
+        continue;
+      }
+      const next = lines[index + 1];
+      const nextRest = next?.text.slice(
+        CONTAINER_PREFIX.exec(next.text)![0]
+          .length,
+      );
+      if (
+        rest.includes("|") && nextRest !== undefined &&
+        nextRest.includes("-") && TABLE_DELIMITER.test(nextRest)
+      ) {
+        inTable = true;
+        addCells(index, contentStart, rest);
+        index++;
+        continue;
+      }
+      paragraph = {
+        line: index,
+        ranges: [{ start: contentStart, end: contentStart + rest.length }],
+        continuation: prefix,
+      };
+      continue;
+    }
+
+    const start = contentStart + rest.length - rest.trimStart().length;
+    (paragraph as Paragraph).ranges.push({
+      start,
+      end: contentStart + rest.length,
+    });
+  }
+  closeParagraph();
+
+  const lineBreak = markdown.includes("\r\n") ? "\r\n" : "\n";
+
+  return {
+    content,
+    render(localized) {
+      const edits: Array<{ start: number; end: number; value: string }> = [];
+
+      for (const [key, value] of Object.entries(localized)) {
+        const unit = units[key];
+        if (!unit) {
+          continue;
+        }
+        if (!unit.segment) {
+          edits.push({
+            start: unit.start,
+            end: unit.end,
+            value: renderFrontMatterValue(value, unit.quote),
+          });
+          continue;
+        }
+
+        const segment = unit.segment;
+        let rendered = restoreSegment(segment, value, key).map((part) => {
+          if (part.type === "text") {
+            return unit.cell
+              ? part.text.replace(/(^|[^\\])\|/g, "$1\\|")
+              : part.text;
+          }
+          const { open, close } = segment.elements[part.index].node;
+          return part.type === "close" ? close ?? "" : open;
+        }).join("");
+        const renderedLines = rendered.split(/\r?\n/);
+        if (renderedLines.length === unit.separators.length + 1) {
+          rendered = renderedLines.map((line, index) =>
+            index === 0 ? line : unit.separators[index - 1] + line
+          ).join("");
+        } else if (unit.continuation === null) {
+          rendered = renderedLines.map((line) => line.trim()).join(" ");
+        } else {
+          rendered = renderedLines.join(lineBreak + unit.continuation);
+        }
+        edits.push({ start: unit.start, end: unit.end, value: rendered });
+      }
+
+      let result = "";
+      let position = 0;
+      edits.sort((a, b) => a.start - b.start);
+      for (const edit of edits) {
+        result += markdown.slice(position, edit.start) + edit.value;
+        position = edit.end;
+      }
+      return result + markdown.slice(position);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * An approved translation of a source string
+ */
+export interface TranslationMemoryEntry {
+  sourceLocale: string | null;
+  targetLocale: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * Storage for approved translations, reused verbatim instead of calling the API
+ * Unlike a TranslationCache, entries are only added explicitly and are matched
+ * on the exact source text, whatever the hints or mode of the request.
+ * Implementations must be safe to call concurrently.
+ */
+export interface TranslationMemory {
+  lookup(
+    sourceLocale: string | null,
+    targetLocale: string,
+    source: string,
+  ): Promise<string | undefined>;
+  add(entry: TranslationMemoryEntry): Promise<void>;
+}
+
+/**
+ * In-memory translation memory, exportable as a list of entries
+ */
+export class MemoryTranslationMemory implements TranslationMemory {
+  private entries = new Map<string, TranslationMemoryEntry>();
+
+  /**
+   * @param entries - Optional approved translations to start with
+   */
+  constructor(entries: TranslationMemoryEntry[] = []) {
+    for (const entry of entries) {
+      this.entries.set(MemoryTranslationMemory.keyOf(entry), entry);
+    }
+  }
+
+  private static keyOf(
+    entry: Pick<
+      TranslationMemoryEntry,
+      "sourceLocale" | "targetLocale" | "source"
+    >,
+  ): string {
+    return JSON.stringify([
+      entry.sourceLocale,
+      entry.targetLocale,
+      entry.source,
+    ]);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(
+    sourceLocale: string | null,
+    targetLocale: string,
+    source: string,
+  ): Promise<string | undefined> {
+    const key = MemoryTranslationMemory.keyOf({
+      sourceLocale,
+      targetLocale,
+      source,
+    });
+    return Promise.resolve(this.entries.get(key)?.target);
+  }
+
+  add(entry: TranslationMemoryEntry): Promise<void> {
+    this.entries.set(MemoryTranslationMemory.keyOf(entry), { ...entry });
+    return Promise.resolve();
+  }
+
+  /**
+   * List every entry, e.g. to persist the memory as JSON
+   * @returns The entries, in insertion order
+   */
+  export(): TranslationMemoryEntry[] {
+    return Array.from(this.entries.values(), (entry) => ({ ...entry }));
+  }
+}
@@ -0,0 +1,183 @@
+import { type EngineParams, LingoDotDevEngine } from "./mod.ts";
+import { protectTranslations } from "./placeholders.ts";
+import { pseudoLocalize } from "./pseudo.ts";
+import { sleep } from "./retry.ts";
+import type { SupportedLocales } from "./locale.ts";
+import { LOCALE_CODES, type LocaleCode } from "./types.ts";
+
+/**
+ * A failure returned by the mock engine instead of a successful response
+ * Use `network: true` to simulate a connection error.
+ */
+export interface MockFailure {
+  status?: number;
+  body?: string;
+  headers?: Record<string, string>;
+  network?: boolean;
+}
+
+/**
+ * A request received by the mock engine
+ */
+export interface MockRequest {
+  endpoint: "i18n" | "recognize" | "whoami" | "locales";
+  headers: Headers;
+  body: Record<string, unknown> | null;
+}
+
+export interface MockEngineOptions {
+  /**
+   * How strings are "translated":
+   *   - identity: returned unchanged (default)
+   *   - pseudo: accented and bracketed, e.g. "[Ĥéļļö]"
+   *   - dictionary: looked up in `dictionary`, falling back to the source text
+   *     Entries with placeholders also match the tokens sent when
+   *     placeholders are protected.
+   */
+  mode?: "identity" | "pseudo" | "dictionary";
+  /** Translations per target locale, keyed by source text */
+  dictionary?: Partial<Record<LocaleCode, Record<string, string>>>;
+  /** Delay in milliseconds applied to every request */
+  latency?: number;
+  /** Failures returned by the next requests, consumed in order */
+  failures?: MockFailure[];
+  /** Locale returned by recognizeLocale (default: "en") */
+  recognizedLocale?: LocaleCode;
+  /** User returned by whoami (default: a mock user) */
+  user?: { email: string; id: string } | null;
+  /** Locales returned by getSupportedLocales (default: the built-in list) */
+  supportedLocales?: SupportedLocales;
+}
+
+/**
+ * Offline drop-in replacement for LingoDotDevEngine
+ * Requests never leave the process, but still go through the real chunking,
+ * retry, progress and error handling code paths of the engine.
+ */
+export class MockLingoDotDevEngine extends LingoDotDevEngine {
+  /** Every request received so far, in order */
+  readonly requests: MockRequest[];
+  private failures: MockFailure[];
+
+  /**
+   * Create a new mock engine
+   * @param options - Mock behavior (translation mode, latency, failures)
+   * @param config - Optional engine configuration (batch size, retry, cache...)
+   */
+  constructor(
+    options: MockEngineOptions = {},
+    config: Partial<EngineParams> = {},
+  ) {
+    const requests: MockRequest[] = [];
+    const failures = [...(options.failures ?? [])];
+    super({
+      apiKey: "mock-api-key",
+      ...config,
+      fetch: createMockFetch(options, requests, failures),
+    });
+    this.requests = requests;
+    this.failures = failures;
+  }
+
+  /**
+   * Queue failures for the next requests
+   * @param failures - Failures to return, in order
+   */
+  injectFailures(...failures: MockFailure[]): void {
+    this.failures.push(...failures);
+  }
+}
+
+function createMockFetch(
+  options: MockEngineOptions,
+  requests: MockRequest[],
+  failures: MockFailure[],
+): typeof fetch {
+  const dictionaries = new Map<LocaleCode, Record<string, string>>();
+  const dictionary = (locale: LocaleCode) => {
+    let entries = dictionaries.get(locale);
+    if (!entries) {
+      const translations = options.dictionary?.[locale] ?? {};
+      entries = { ...protectTranslations(translations), ...translations };
+      dictionaries.set(locale, entries);
+    }
+    return entries;
+  };
+
+  return async (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const endpoint = url.endsWith("/recognize")
+      ? "recognize"
+      : url.endsWith("/whoami")
+      ? "whoami"
+      : url.endsWith("/locales")
+      ? "locales"
+      : "i18n";
+    const body = typeof init?.body === "string" ? JSON.parse(init.body) : null;
+    requests.push({ endpoint, headers: new Headers(init?.headers), body });
+
+    if (options.latency) {
+      await sleep(options.latency, init?.signal ?? undefined);
+    } else if (init?.signal?.aborted) {
+      throw init.signal.reason;
+    }
+
+    const failure = failures.shift();
+    if (failure?.network) {
+      throw new TypeError("Mock network error");
+    }
+    if (failure) {
+      return new Response(failure.body ?? "Mock failure", {
+        status: failure.status ?? 500,
+        statusText: "Mock failure",
+        headers: failure.headers,
+      });
+    }
+
+    let payload: unknown;
+    if (endpoint === "recognize") {
+      payload = { locale: options.recognizedLocale ?? "en" };
+    } else if (endpoint === "locales") {
+      payload = options.supportedLocales ?? {
+        source: LOCALE_CODES,
+        target: LOCALE_CODES,
+        fast: LOCALE_CODES,
+      };
+    } else if (endpoint === "whoami") {
+      payload = options.user === undefined
+        ? { email: "mock@lingo.dev", id: "mock-user" }
+        : options.user;
+    } else {
+      const targetLocale = body?.locale?.target as LocaleCode;
+      const data: Record<string, string> = {};
+      for (const [key, value] of Object.entries(body?.data ?? {})) {
+        data[key] = translate(
+          String(value),
+          options,
+          () => dictionary(targetLocale),
+        );
+      }
+      payload = { data };
+    }
+
+    return new Response(JSON.stringify(payload), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
+
+function translate(
+  text: string,
+  options: MockEngineOptions,
+  dictionary: () => Record<string, string>,
+): string {
+  switch (options.mode) {
+    case "pseudo":
+      return pseudoLocalize(text);
+    case "dictionary":
+      return dictionary()[text] ?? text;
+    default:
+      return text;
+  }
+}
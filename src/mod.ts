@@ -1,4 +1,62 @@
 import type { LocaleCode } from "./types.ts";
+import {
+  computeRetryDelay,
+  isAbortError,
+  parseRetryAfter,
+  resolveRetryParams,
+  type RetryParams,
+  sleep,
+} from "./retry.ts";
+import { createCacheKey, type TranslationCache } from "./cache.ts";
+import { type PseudoLocalizeOptions, pseudoLocalizeRecord } from "./pseudo.ts";
+import { protectPlaceholders } from "./placeholders.ts";
+import { iterateChunks, type LocalizationStreamChunk } from "./stream.ts";
+import { type ChunkSizing, createSizer, splitText } from "./chunking.ts";
+import {
+  createHtmlRules,
+  createInlineSegment,
+  domElementView,
+  type HtmlLocalizationOptions,
+  type InlineSegment,
+  type InlineTreeAdapter,
+  parseHtml,
+  restoreSegment,
+} from "./html.ts";
+import { type MarkdownLocalizationOptions, parseMarkdown } from "./markdown.ts";
+import {
+  canonicalizeLocale,
+  getTextDirection,
+  normalizeLocale,
+  type SupportedLocales,
+} from "./locale.ts";
+import { parsePo, type PoLocalizationOptions } from "./po.ts";
+import {
+  parseSubtitles,
+  type SubtitleLocalizationOptions,
+} from "./subtitles.ts";
+import { parseXliff, type XliffLocalizationOptions } from "./xliff.ts";
+import { mapWithConcurrency, validateConcurrency } from "./concurrency.ts";
+import { diffSources, type LocalizationChangeset } from "./incremental.ts";
+import type { CheckpointStore, LocalizationJobOptions } from "./checkpoint.ts";
+import {
+  checkGlossary,
+  createGlossaryContext,
+  findGlossaryTerms,
+  type Glossary,
+  type GlossaryContext,
+  type GlossaryViolation,
+} from "./glossary.ts";
+import type { TranslationMemory } from "./memory.ts";
+import {
+  AbortedError,
+  createHttpError,
+  GlossaryViolationError,
+  LingoDotDevError,
+  type LingoDotDevErrorDetails,
+  NetworkError,
+  ServerError,
+  ValidationError,
+} from "./errors.ts";
 
 // Simple ID generator for Deno (no external dependencies)
 function createId(): string {
@@ -11,12 +69,236 @@ function createId(): string {
   return result;
 }
 
+// Wrap the reason of a cancelled operation into an AbortedError
+function createAbortedError(
+  reason: unknown,
+  details: LingoDotDevErrorDetails,
+): AbortedError {
+  const message = reason instanceof Error
+    ? reason.message
+    : "The operation was aborted";
+  return new AbortedError(message, { ...details, cause: reason });
+}
+
+// Wait for a promise shared with other callers, rejecting as soon as this
+// caller's signal aborts without cancelling the promise itself
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(createAbortedError(signal.reason, {}));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(createAbortedError(signal.reason, {}));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+// Escape a key segment so "/" can be used as the path separator
+function encodePathSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Rebuild a value below `path`, escaping every segment of the child paths
+function walkStringLeaves(
+  value: unknown,
+  path: string,
+  ancestors: string[],
+  replace: (text: string, path: string, ancestors: string[]) => string,
+): unknown {
+  if (typeof value === "string") {
+    return replace(value, path, ancestors);
+  }
+  const inner = path ? [...ancestors, path] : ancestors;
+  const child = (key: string) =>
+    path ? `${path}/${encodePathSegment(key)}` : encodePathSegment(key);
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      walkStringLeaves(item, child(String(index)), inner, replace)
+    );
+  } else if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = walkStringLeaves(item, child(key), inner, replace);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Rebuild a value with the same shape, replacing every string leaf with the
+ * result of `replace`. Leaves are identified by "/"-separated paths with
+ * escaped segments, e.g. "nav/items/0", except top-level strings, which keep
+ * their key as is unless it collides with the path of a nested string.
+ * Non-string leaves are kept as is.
+ * @param value - The value to walk
+ * @param replace - Called with every string, its path and the paths of the
+ *   objects and arrays containing it, outermost first
+ * @returns The rebuilt value
+ */
+function mapStringLeaves(
+  value: unknown,
+  replace: (text: string, path: string, ancestors: string[]) => string,
+): unknown {
+  if (!isPlainObject(value)) {
+    return walkStringLeaves(value, "", [], replace);
+  }
+  const nestedPaths = new Set<string>();
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== "string") {
+      walkStringLeaves(item, encodePathSegment(key), [], (text, path) => {
+        nestedPaths.add(path);
+        return text;
+      });
+    }
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const flat = typeof item === "string" && !nestedPaths.has(key);
+    result[key] = walkStringLeaves(
+      item,
+      flat ? key : encodePathSegment(key),
+      [],
+      replace,
+    );
+  }
+  return result;
+}
+
+/**
+ * Collect every string leaf of a nested object/array into a flat record
+ * keyed by its path (see mapStringLeaves).
+ */
+function flattenStringLeaves(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  mapStringLeaves(value, (text, path) => {
+    result[path] = text;
+    return text;
+  });
+  return result;
+}
+
+/**
+ * Rebuild a value with the same shape as the original, replacing string
+ * leaves with their localized counterparts. Non-string leaves are kept as is.
+ */
+function restoreStringLeaves(
+  value: unknown,
+  localized: Record<string, string>,
+): unknown {
+  return mapStringLeaves(
+    value,
+    (text, path) => path in localized ? localized[path] : text,
+  );
+}
+
+/**
+ * Key hints by the leaf paths of flattenStringLeaves. The hints of an object
+ * or array apply to every leaf below it, after the hints of its ancestors.
+ * @param value - The value holding the leaves
+ * @param hints - Hints keyed by leaf, object or array path
+ * @param leaves - The leaves to collect hints for, keyed by path
+ */
+function inheritHints(
+  value: unknown,
+  hints: Record<string, string[]> | undefined,
+  leaves: Record<string, string>,
+): Record<string, string[]> | undefined {
+  if (!hints) {
+    return undefined;
+  }
+  const result: Record<string, string[]> = {};
+  mapStringLeaves(value, (text, path, ancestors) => {
+    const leafHints = [...ancestors, path].flatMap((p) => hints[p] ?? []);
+    if (path in leaves && leafHints.length > 0) {
+      result[path] = leafHints;
+    }
+    return text;
+  });
+  return result;
+}
+
+// What is sent to the API for a chunk, besides the locales and params
+interface ChunkRequest {
+  data: Record<string, string>;
+  reference?: Record<LocaleCode, Record<string, unknown>>;
+  hints?: Record<string, string[]>;
+  glossary?: GlossaryContext;
+}
+
+// A part of a string value split by splitOversizedValues
+interface SplitPart {
+  /** Key of the part in the payload, or null for whitespace-only parts */
+  key: string | null;
+  leading: string;
+  trailing: string;
+}
+
+// Join the localized parts of a split value, or undefined if one is missing
+function joinParts(
+  parts: SplitPart[],
+  localized: Record<string, string>,
+): string | undefined {
+  if (!parts.every((part) => part.key === null || part.key in localized)) {
+    return undefined;
+  }
+  return parts
+    .map((part) =>
+      part.key === null
+        ? part.leading + part.trailing
+        : part.leading + localized[part.key].trim() + part.trailing
+    )
+    .join("");
+}
+
 // Simple Zod-like validation interfaces for Deno
 export interface EngineParams {
   apiKey: string;
   apiUrl?: string;
   batchSize?: number;
   idealBatchItemSize?: number;
+  retry?: RetryParams;
+  concurrency?: number;
+  cache?: TranslationCache;
+  fetch?: typeof fetch;
+  onRequest?: (request: RequestContext) => void | Promise<void>;
+  onResponse?: (
+    response: Response,
+    request: RequestContext,
+  ) => void | Promise<void>;
+  pseudoLocalize?: boolean | PseudoLocalizeOptions;
+  protectPlaceholders?: boolean;
+  chunkSizing?: ChunkSizing;
+  maxChunkSize?: number;
+  discoverLocales?: boolean;
+  supportedLocalesTtl?: number;
+  glossary?: Glossary;
+  translationMemory?: TranslationMemory;
+  checkpointStore?: CheckpointStore;
+}
+
+/**
+ * A request about to be sent to the Lingo.dev API
+ * `onRequest` hooks may change the URL or the headers in place.
+ */
+export interface RequestContext {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  /** 1-based attempt number, greater than 1 for retries */
+  attempt: number;
 }
 
 export interface LocalizationParams {
@@ -25,29 +307,219 @@ export interface LocalizationParams {
   fast?: boolean;
   reference?: Record<LocaleCode, Record<string, unknown>>;
   hints?: Record<string, string[]>;
+  concurrency?: number;
+  pseudoLocalize?: boolean | PseudoLocalizeOptions;
+  protectPlaceholders?: boolean;
+  glossary?: Glossary;
+}
+
+export interface MultiLocaleParams
+  extends Omit<LocalizationParams, "targetLocale"> {
+  targetLocales: LocaleCode[];
+  /** Maximum number of locales localized at the same time (default: 4) */
+  localeConcurrency?: number;
+}
+
+/**
+ * A chat message with the default text and name fields
+ */
+export interface ChatMessage {
+  name: string;
+  text: string;
+}
+
+/**
+ * Options controlling how localizeChat reads messages
+ */
+export interface ChatLocalizationOptions {
+  /** Property holding the text to translate (default: "text") */
+  textField?: string;
+  /** Property holding the speaker name (default: "name") */
+  nameField?: string;
+  /** Pass speaker names to the engine as hints (default: false) */
+  speakerHints?: boolean;
+  /**
+   * Called with the indexes of the messages the API returned no translation
+   * for; those messages keep their source text
+   */
+  onUntranslated?: (indexes: number[], targetLocale: LocaleCode) => void;
+}
+
+/**
+ * Parameters for localizing a chat sequence
+ */
+export type ChatLocalizationParams =
+  & LocalizationParams
+  & ChatLocalizationOptions;
+
+/**
+ * Parameters for localizing an HTML document
+ */
+export type HtmlLocalizationParams =
+  & LocalizationParams
+  & HtmlLocalizationOptions;
+
+/**
+ * Parameters for localizing a Markdown document
+ */
+export type MarkdownLocalizationParams =
+  & LocalizationParams
+  & MarkdownLocalizationOptions;
+
+/**
+ * Parameters for localizing a gettext PO file
+ */
+export type PoLocalizationParams = LocalizationParams & PoLocalizationOptions;
+
+/**
+ * Parameters for localizing a subtitle file
+ */
+export type SubtitleLocalizationParams =
+  & LocalizationParams
+  & SubtitleLocalizationOptions;
+
+/**
+ * Parameters for localizing an XLIFF document
+ */
+export type XliffLocalizationParams =
+  & LocalizationParams
+  & XliffLocalizationOptions;
+
+/**
+ * Parameters for running a resumable localization job
+ */
+export type LocalizationJobParams =
+  & LocalizationParams
+  & LocalizationJobOptions;
+
+/**
+ * Outcome of a localization to multiple target locales
+ */
+export interface MultiLocaleResult<T> {
+  /** Results of the locales that succeeded */
+  results: Partial<Record<LocaleCode, T>>;
+  /** Errors of the locales that failed */
+  errors: Partial<Record<LocaleCode, unknown>>;
+  /** Locales that succeeded, in request order */
+  succeeded: LocaleCode[];
+  /** Locales that failed, in request order */
+  failed: LocaleCode[];
+}
+
+/**
+ * Outcome of an incremental localization
+ */
+export interface IncrementalLocalizationResult<T> {
+  /** The localized object, shaped like the current source */
+  result: T;
+  /** What happened to every string */
+  changes: LocalizationChangeset;
 }
 
 function validateEngineParams(config: Partial<EngineParams>): EngineParams {
   if (!config.apiKey) {
     throw new Error("apiKey is required");
   }
+  if (config.maxChunkSize !== undefined && !(config.maxChunkSize > 0)) {
+    throw new Error("maxChunkSize must be a positive number");
+  }
 
   return {
     apiKey: config.apiKey,
     apiUrl: config.apiUrl ?? "https://engine.lingo.dev",
     batchSize: config.batchSize ?? 25,
     idealBatchItemSize: config.idealBatchItemSize ?? 250,
+    retry: config.retry && resolveRetryParams(config.retry),
+    concurrency: validateConcurrency(config.concurrency ?? 1),
+    cache: config.cache,
+    fetch: config.fetch,
+    onRequest: config.onRequest,
+    onResponse: config.onResponse,
+    pseudoLocalize: config.pseudoLocalize,
+    protectPlaceholders: config.protectPlaceholders,
+    chunkSizing: config.chunkSizing ?? "words",
+    maxChunkSize: config.maxChunkSize,
+    discoverLocales: config.discoverLocales ?? false,
+    supportedLocalesTtl: config.supportedLocalesTtl ?? 60 * 60 * 1000,
+    glossary: config.glossary,
+    translationMemory: config.translationMemory,
+    checkpointStore: config.checkpointStore,
   };
 }
 
+/**
+ * Canonicalize a locale parameter and map it to a supported code
+ * Only the locales discovered from the API are authoritative: without them,
+ * well-formed codes missing from the built-in list are sent as canonicalized.
+ */
+function resolveLocale(tag: string, discovered?: string[]): LocaleCode {
+  if (discovered) {
+    return normalizeLocale(tag, discovered);
+  }
+  const canonical = canonicalizeLocale(tag);
+  try {
+    return normalizeLocale(canonical);
+  } catch {
+    return canonical as LocaleCode;
+  }
+}
+
 function validateLocalizationParams(
   params: LocalizationParams,
+  supportedLocales?: SupportedLocales,
 ): LocalizationParams {
   if (!params.targetLocale) {
     throw new Error("targetLocale is required");
   }
+  if (params.concurrency !== undefined) {
+    validateConcurrency(params.concurrency);
+  }
 
-  return params;
+  const targetLocale = resolveLocale(
+    params.targetLocale,
+    supportedLocales?.target,
+  );
+  if (
+    params.fast && supportedLocales?.fast &&
+    !supportedLocales.fast.includes(targetLocale)
+  ) {
+    throw new ValidationError(
+      `Fast mode is not supported for locale "${targetLocale}"`,
+    );
+  }
+  return {
+    ...params,
+    sourceLocale: params.sourceLocale &&
+      resolveLocale(params.sourceLocale, supportedLocales?.source),
+    targetLocale,
+  };
+}
+
+/**
+ * Serialize the body of a localization request, as sent to the API
+ */
+function serializeChunkRequest(
+  sourceLocale: string | null,
+  targetLocale: string,
+  payload: ChunkRequest,
+  workflowId: string,
+  fast: boolean,
+): string {
+  return JSON.stringify(
+    {
+      params: { workflowId, fast },
+      locale: {
+        source: sourceLocale,
+        target: targetLocale,
+      },
+      data: payload.data,
+      reference: payload.reference,
+      hints: payload.hints,
+      glossary: payload.glossary,
+    },
+    null,
+    2,
+  );
 }
 
 /**
@@ -59,6 +531,8 @@ function validateLocalizationParams(
  */
 export class LingoDotDevEngine {
   protected config: EngineParams;
+  private supportedLocales?: { value: SupportedLocales; expiresAt: number };
+  private supportedLocalesRequest?: Promise<SupportedLocales>;
 
   /**
    * Create a new LingoDotDevEngine instance for Deno
@@ -79,7 +553,7 @@ export class LingoDotDevEngine {
    */
   async _localizeRaw(
     payload: Record<string, unknown>,
-    params: LocalizationParams,
+    params: LocalizationParams & Partial<LocalizationJobOptions>,
     progressCallback?: (
       progress: number,
       sourceChunk: Record<string, string>,
@@ -87,34 +561,530 @@ export class LingoDotDevEngine {
     ) => void,
     signal?: AbortSignal,
   ): Promise<Record<string, string>> {
-    const finalParams = validateLocalizationParams(params);
-    const chunkedPayload = this.extractPayloadChunks(payload);
-    const processedPayloadChunks: Record<string, string>[] = [];
-
-    const workflowId = createId();
-    for (let i = 0; i < chunkedPayload.length; i++) {
-      const chunk = chunkedPayload[i];
-      const percentageCompleted = Math.round(
-        ((i + 1) / chunkedPayload.length) * 100,
+    const pseudo = params.pseudoLocalize ?? this.config.pseudoLocalize;
+    const finalParams = validateLocalizationParams(
+      params,
+      this.config.discoverLocales && !pseudo
+        ? await this.getSupportedLocales({}, signal)
+        : this.cachedSupportedLocales(),
+    );
+    const pseudoOptions = typeof pseudo === "object" ? pseudo : {};
+    const protect = finalParams.protectPlaceholders ??
+      this.config.protectPlaceholders ?? true;
+    // Pseudo-localized strings must never end up in the cache, nor be
+    // checked against the glossary
+    const cache = pseudo ? undefined : this.config.cache;
+    const glossary = pseudo
+      ? undefined
+      : finalParams.glossary ?? this.config.glossary;
+    const memoryHits = pseudo ? {} : await this.lookupMemory(
+      payload,
+      finalParams,
+    );
+    const cacheLookup = await this.lookupCache(
+      Object.fromEntries(
+        Object.entries(payload).filter(([key]) => !(key in memoryHits)),
+      ),
+      finalParams,
+      cache,
+      glossary,
+    );
+    const { misses, cacheKeys } = cacheLookup;
+    const hits = { ...memoryHits, ...cacheLookup.hits };
+    const concurrency = finalParams.concurrency ?? this.config.concurrency ?? 1;
+    const workflowId = params.workflowId ?? createId();
+
+    // The request of a chunk, with its placeholders protected
+    const prepareChunk = (
+      chunk: Record<string, string>,
+      hints?: Record<string, string[]>,
+    ) => {
+      const protection = protect ? protectPlaceholders(chunk, hints) : null;
+      const request: ChunkRequest = {
+        data: protection?.data ?? chunk,
+        reference: params.reference,
+        hints: protection ? protection.hints : hints,
+        glossary: glossary &&
+          createGlossaryContext(glossary, finalParams.targetLocale, chunk),
+      };
+      return { protection, request };
+    };
+    const measure = createSizer(this.config.chunkSizing ?? "words");
+    const requestSize = (
+      chunk: Record<string, string>,
+      hints?: Record<string, string[]>,
+    ) =>
+      measure(
+        serializeChunkRequest(
+          finalParams.sourceLocale,
+          finalParams.targetLocale,
+          prepareChunk(chunk, hints).request,
+          workflowId,
+          params.fast || false,
+        ),
       );
-
-      const processedPayloadChunk = await this.localizeChunk(
-        finalParams.sourceLocale,
-        finalParams.targetLocale,
-        { data: chunk, reference: params.reference, hints: params.hints },
+    const split = this.splitOversizedValues(misses, params.hints, requestSize);
+
+    // Jobs save every completed chunk and skip those saved by previous runs
+    const checkpoints = params.workflowId && !pseudo
+      ? params.checkpointStore ?? this.config.checkpointStore
+      : undefined;
+    const resumed = checkpoints
+      ? await this.loadCheckpoints(
+        checkpoints,
         workflowId,
-        params.fast || false,
-        signal,
+        finalParams,
+        split.payload,
+      )
+      : { translated: {}, nextChunkIndex: 0 };
+    const chunkedPayload = this.extractPayloadChunks(
+      Object.fromEntries(
+        Object.entries(split.payload).filter(([key]) =>
+          !(key in resumed.translated)
+        ),
+      ),
+      (chunk) => requestSize(chunk, split.hints),
+    );
+
+    let completedChunks = 0;
+    // Parts of split values completed so far, rejoined for progress reports
+    const completedParts: Record<string, string> = { ...resumed.translated };
+    const violations: GlossaryViolation[] = [];
+    const violatingKeys = new Set<string>();
+    const collectViolations = (
+      sources: Record<string, string>,
+      translations: Record<string, string>,
+    ) => {
+      if (!glossary) {
+        return;
+      }
+      for (
+        const violation of checkGlossary(
+          glossary,
+          finalParams.targetLocale,
+          sources,
+          translations,
+        )
+      ) {
+        // Report parts of split values under the key of the value
+        const key = violation.key.split("::part/")[0];
+        violations.push({ ...violation, key });
+        violatingKeys.add(key);
+      }
+    };
+    collectViolations(
+      split.payload as Record<string, string>,
+      resumed.translated,
+    );
+    const processedPayloadChunks = await mapWithConcurrency(
+      chunkedPayload,
+      concurrency,
+      async (chunk, i) => {
+        const chunkIndex = resumed.nextChunkIndex + i;
+        if (pseudo && signal?.aborted) {
+          throw createAbortedError(signal.reason, {
+            workflowId,
+            chunkIndex,
+          });
+        }
+        const { protection, request } = prepareChunk(chunk, split.hints);
+
+        let translatedChunk: Record<string, string> = {};
+        if (pseudo) {
+          translatedChunk = pseudoLocalizeRecord(request.data, pseudoOptions);
+        } else if (Object.keys(request.data).length > 0) {
+          translatedChunk = await this.localizeChunk(
+            finalParams.sourceLocale,
+            finalParams.targetLocale,
+            request,
+            workflowId,
+            chunkIndex,
+            params.fast || false,
+            signal,
+          );
+        }
+        const processedPayloadChunk = protection
+          ? protection.restore(translatedChunk, { workflowId, chunkIndex })
+          : translatedChunk;
+        collectViolations(chunk, processedPayloadChunk);
+        await this.storeCache(
+          processedPayloadChunk,
+          cacheKeys,
+          cache,
+          violatingKeys,
+        );
+        await checkpoints?.save(workflowId, {
+          chunkIndex,
+          sourceLocale: finalParams.sourceLocale,
+          targetLocale: finalParams.targetLocale,
+          fast: finalParams.fast || false,
+          source: chunk,
+          translated: processedPayloadChunk,
+        });
+
+        // Chunks may finish out of order, so progress counts completions
+        completedChunks++;
+        const percentageCompleted = Math.round(
+          (completedChunks / chunkedPayload.length) * 100,
+        );
+        if (progressCallback) {
+          const reported = this.rejoinChunk(
+            payload,
+            chunk,
+            processedPayloadChunk,
+            split.parts,
+            completedParts,
+          );
+          progressCallback(
+            percentageCompleted,
+            reported.sourceChunk,
+            reported.processedChunk,
+          );
+        }
+
+        return processedPayloadChunk;
+      },
+    );
+
+    // Report cache-only results as a single completed chunk
+    if (chunkedPayload.length === 0 && Object.keys(hits).length > 0) {
+      const sourceChunk = Object.fromEntries(
+        Object.keys(hits).map((key) => [key, String(payload[key])]),
       );
+      progressCallback?.(100, sourceChunk, hits);
+    }
 
-      if (progressCallback) {
-        progressCallback(percentageCompleted, chunk, processedPayloadChunk);
+    if (violations.length > 0) {
+      if (glossary?.enforcement === "reject") {
+        throw new GlossaryViolationError(
+          `${violations.length} glossary rule(s) broken: ${
+            violations.map((v) => `"${v.term}" in "${v.key}"`).join(", ")
+          }`,
+          { violations, workflowId },
+        );
       }
+      glossary?.onViolation?.(violations);
+    }
 
-      processedPayloadChunks.push(processedPayloadChunk);
+    const merged = Object.assign(
+      {},
+      hits,
+      resumed.translated,
+      ...processedPayloadChunks,
+    );
+    const joined = this.joinSplitValues(merged, split.parts);
+    await this.storeCache(joined, cacheKeys, cache, violatingKeys);
+    if (!params.keepCheckpoints) {
+      await checkpoints?.delete(workflowId);
     }
 
-    return Object.assign({}, ...processedPayloadChunks);
+    // Merge everything back in the original key order
+    const result: Record<string, string> = {};
+    for (const key of Object.keys(payload)) {
+      if (key in merged) {
+        result[key] = merged[key];
+      }
+    }
+    return Object.assign(result, merged);
+  }
+
+  /**
+   * Split string values larger than `maxChunkSize` into sentence-based parts
+   * Parts are keyed "<key>::part/<index>" and inherit the hints of their key.
+   * A value is split when the request sending it alone would be too large, in
+   * parts leaving room for the rest of that request.
+   * @param payload - The content to be localized
+   * @param hints - Optional hints keyed like `payload`
+   * @param requestSize - Size of the request sending a chunk with its hints
+   * @returns The payload with oversized values replaced by their parts,
+   *   the matching hints and the parts of every split key
+   */
+  private splitOversizedValues(
+    payload: Record<string, unknown>,
+    hints: Record<string, string[]> | undefined,
+    requestSize: (
+      chunk: Record<string, string>,
+      hints?: Record<string, string[]>,
+    ) => number,
+  ): {
+    payload: Record<string, unknown>;
+    hints?: Record<string, string[]>;
+    parts: Record<string, SplitPart[]>;
+  } {
+    const maxSize = this.config.maxChunkSize;
+    if (!maxSize) {
+      return { payload, hints, parts: {} };
+    }
+
+    const measure = createSizer(this.config.chunkSizing ?? "words");
+    const result: Record<string, unknown> = {};
+    const resultHints: Record<string, string[]> = { ...hints };
+    const parts: Record<string, SplitPart[]> = {};
+
+    for (const [key, value] of Object.entries(payload)) {
+      if (typeof value !== "string") {
+        result[key] = value;
+        continue;
+      }
+      const size = measure(value);
+      if (
+        requestSize({ [key]: value }, hints?.[key] && { [key]: hints[key] }) <=
+          maxSize
+      ) {
+        result[key] = value;
+        continue;
+      }
+      // There are at most `size` parts, so no part key is longer than this one
+      const longestKey = `${key}::part/${Math.ceil(size)}`;
+      const overhead = requestSize(
+        { [longestKey]: value },
+        hints?.[key] && { [longestKey]: hints[key] },
+      ) - size;
+      const limit = Math.max(1, maxSize - overhead);
+
+      parts[key] = splitText(value, limit, measure).map((text, index) => {
+        const partKey = `${key}::part/${index}`;
+        const leading = /^\s*/.exec(text)?.[0] ?? "";
+        const trailing = /\s*$/.exec(text.slice(leading.length))?.[0] ?? "";
+        const core = text.trim();
+        if (core) {
+          result[partKey] = core;
+          if (hints?.[key]) {
+            resultHints[partKey] = hints[key];
+          }
+        }
+        return { key: core ? partKey : null, leading, trailing };
+      });
+    }
+
+    return { payload: result, hints: hints && resultHints, parts };
+  }
+
+  /**
+   * Replace the parts of split values in a completed chunk by whole values
+   * A split value is reported with the chunk completing its last part.
+   * @param payload - The content to be localized, before splitting
+   * @param sourceChunk - Source strings of the chunk
+   * @param processedChunk - Localized strings of the chunk
+   * @param parts - The parts of every split key
+   * @param completedParts - Parts completed so far, updated with the chunk's
+   * @returns The chunk as exposed to progress callbacks and streams
+   */
+  private rejoinChunk(
+    payload: Record<string, unknown>,
+    sourceChunk: Record<string, string>,
+    processedChunk: Record<string, string>,
+    parts: Record<string, SplitPart[]>,
+    completedParts: Record<string, string>,
+  ): {
+    sourceChunk: Record<string, string>;
+    processedChunk: Record<string, string>;
+  } {
+    const reported = {
+      sourceChunk: {} as Record<string, string>,
+      processedChunk: {} as Record<string, string>,
+    };
+    for (const [key, value] of Object.entries(processedChunk)) {
+      const splitKey = key.split("::part/")[0];
+      if (!(splitKey in parts)) {
+        reported.sourceChunk[key] = sourceChunk[key];
+        reported.processedChunk[key] = value;
+        continue;
+      }
+      completedParts[key] = value;
+      const joined = joinParts(parts[splitKey], completedParts);
+      if (joined !== undefined && !(splitKey in reported.processedChunk)) {
+        reported.sourceChunk[splitKey] = String(payload[splitKey]);
+        reported.processedChunk[splitKey] = joined;
+      }
+    }
+    return reported;
+  }
+
+  /**
+   * Reassemble values split by splitOversizedValues, in place
+   * Values with a missing part are left out.
+   * @param localized - Localized strings, including the parts
+   * @param parts - The parts of every split key
+   * @returns The reassembled values
+   */
+  private joinSplitValues(
+    localized: Record<string, string>,
+    parts: Record<string, SplitPart[]>,
+  ): Record<string, string> {
+    const joined: Record<string, string> = {};
+    for (const [key, keyParts] of Object.entries(parts)) {
+      const value = joinParts(keyParts, localized);
+      if (value !== undefined) {
+        joined[key] = value;
+      }
+      for (const part of keyParts) {
+        if (part.key !== null) {
+          delete localized[part.key];
+        }
+      }
+    }
+    Object.assign(localized, joined);
+    return joined;
+  }
+
+  /**
+   * Load the chunks completed by previous runs of a job
+   * Chunks saved for other locales or another mode, and strings whose source
+   * changed since they were saved, are left out.
+   * @param store - The checkpoint store
+   * @param workflowId - ID of the job
+   * @param params - Localization parameters of this run
+   * @param payload - The content to be localized, with split values
+   * @returns The saved translations keyed like `payload`, and the index of the
+   *   first chunk of this run
+   */
+  private async loadCheckpoints(
+    store: CheckpointStore,
+    workflowId: string,
+    params: LocalizationParams,
+    payload: Record<string, unknown>,
+  ): Promise<{ translated: Record<string, string>; nextChunkIndex: number }> {
+    const translated: Record<string, string> = {};
+    let nextChunkIndex = 0;
+    for (const checkpoint of await store.load(workflowId)) {
+      nextChunkIndex = Math.max(nextChunkIndex, checkpoint.chunkIndex + 1);
+      if (
+        checkpoint.sourceLocale !== params.sourceLocale ||
+        checkpoint.targetLocale !== params.targetLocale ||
+        checkpoint.fast !== (params.fast || false)
+      ) {
+        continue;
+      }
+      for (const [key, value] of Object.entries(checkpoint.translated)) {
+        if (
+          key in payload && payload[key] === checkpoint.source[key] &&
+          typeof value === "string"
+        ) {
+          translated[key] = value;
+        }
+      }
+    }
+    return { translated, nextChunkIndex };
+  }
+
+  /**
+   * Find approved translations of payload strings in the translation memory
+   * @param payload - The content to be localized
+   * @param params - Localization parameters
+   * @returns Exact matches keyed like `payload`
+   */
+  private async lookupMemory(
+    payload: Record<string, unknown>,
+    params: LocalizationParams,
+  ): Promise<Record<string, string>> {
+    const memory = this.config.translationMemory;
+    if (!memory) {
+      return {};
+    }
+
+    const hits: Record<string, string> = {};
+    await Promise.all(
+      Object.entries(payload).map(async ([key, value]) => {
+        if (typeof value !== "string") {
+          return;
+        }
+        const match = await memory.lookup(
+          params.sourceLocale,
+          params.targetLocale,
+          value,
+        );
+        if (match !== undefined) {
+          hits[key] = match;
+        }
+      }),
+    );
+    return hits;
+  }
+
+  /**
+   * Split a payload into strings already present in the cache and the rest
+   * @param payload - The content to be localized
+   * @param params - Localization parameters the cache keys are derived from
+   * @param cache - The cache to read from, if any
+   * @param glossary - Glossary whose rules are part of the cache keys, if any
+   * @returns Cached translations, entries still to be localized and the cache key of every string
+   */
+  private async lookupCache(
+    payload: Record<string, unknown>,
+    params: LocalizationParams,
+    cache: TranslationCache | undefined,
+    glossary?: Glossary,
+  ): Promise<{
+    hits: Record<string, string>;
+    misses: Record<string, unknown>;
+    cacheKeys: Record<string, string>;
+  }> {
+    if (!cache) {
+      return { hits: {}, misses: payload, cacheKeys: {} };
+    }
+
+    const hits: Record<string, string> = {};
+    const misses: Record<string, unknown> = {};
+    const cacheKeys: Record<string, string> = {};
+    await Promise.all(
+      Object.entries(payload).map(async ([key, value]) => {
+        if (typeof value !== "string") {
+          return;
+        }
+        cacheKeys[key] = await createCacheKey({
+          sourceLocale: params.sourceLocale,
+          targetLocale: params.targetLocale,
+          fast: params.fast || false,
+          hints: params.hints?.[key],
+          glossary: glossary &&
+            Object.entries(
+              findGlossaryTerms(glossary, params.targetLocale, value),
+            ).map(([term, translation]) => `${term}=${translation}`),
+          text: value,
+        });
+        const cached = await cache.get(cacheKeys[key]);
+        if (cached !== undefined) {
+          hits[key] = cached;
+        }
+      }),
+    );
+
+    // Keep misses in payload order so chunking stays deterministic
+    for (const [key, value] of Object.entries(payload)) {
+      if (!(key in hits)) {
+        misses[key] = value;
+      }
+    }
+
+    return { hits, misses, cacheKeys };
+  }
+
+  /**
+   * Store a localized chunk in the cache
+   * @param processedChunk - Localized strings returned by the API
+   * @param cacheKeys - Cache key of every source string
+   * @param cache - The cache to write to, if any
+   * @param excludedKeys - Keys not to store, e.g. glossary violations
+   */
+  private async storeCache(
+    processedChunk: Record<string, string>,
+    cacheKeys: Record<string, string>,
+    cache: TranslationCache | undefined,
+    excludedKeys?: Set<string>,
+  ): Promise<void> {
+    if (!cache) {
+      return;
+    }
+
+    await Promise.all(
+      Object.entries(processedChunk)
+        .filter(([key, value]) =>
+          key in cacheKeys && typeof value === "string" &&
+          !excludedKeys?.has(key)
+        )
+        .map(([key, value]) => cache.set(cacheKeys[key], value)),
+    );
   }
 
   /**
@@ -123,6 +1093,7 @@ export class LingoDotDevEngine {
    * @param targetLocale - Target locale
    * @param payload - Payload containing the chunk to be localized
    * @param workflowId - Workflow ID for tracking
+   * @param chunkIndex - Index of the chunk within the workflow
    * @param fast - Whether to use fast mode
    * @param signal - Optional AbortSignal to cancel the operation
    * @returns Localized chunk
@@ -130,49 +1101,47 @@ export class LingoDotDevEngine {
   private async localizeChunk(
     sourceLocale: string | null,
     targetLocale: string,
-    payload: {
-      data: Record<string, string>;
-      reference?: Record<LocaleCode, Record<string, unknown>>;
-      hints?: Record<string, string[]>;
-    },
+    payload: ChunkRequest,
     workflowId: string,
+    chunkIndex: number,
     fast: boolean,
     signal?: AbortSignal,
   ): Promise<Record<string, string>> {
-    const res = await fetch(`${this.config.apiUrl}/i18n`, {
+    const res = await this.fetchWithRetry(`${this.config.apiUrl}/i18n`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json; charset=utf-8",
         Authorization: `Bearer ${this.config.apiKey}`,
       },
-      body: JSON.stringify(
-        {
-          params: { workflowId, fast },
-          locale: {
-            source: sourceLocale,
-            target: targetLocale,
-          },
-          data: payload.data,
-          reference: payload.reference,
-          hints: payload.hints,
-        },
-        null,
-        2,
+      body: serializeChunkRequest(
+        sourceLocale,
+        targetLocale,
+        payload,
+        workflowId,
+        fast,
       ),
       signal,
-    });
+    }, { workflowId, chunkIndex });
 
     if (!res.ok) {
+      const errorText = await res.text();
+      const details = {
+        status: res.status,
+        body: errorText,
+        workflowId,
+        chunkIndex,
+        retryAfter: parseRetryAfter(res.headers.get("Retry-After")) ??
+          undefined,
+      };
       if (res.status >= 500 && res.status < 600) {
-        const errorText = await res.text();
-        throw new Error(
+        throw createHttpError(
           `Server error (${res.status}): ${res.statusText}. ${errorText}. This may be due to temporary service issues.`,
+          details,
         );
       } else if (res.status === 400) {
-        throw new Error(`Invalid request: ${res.statusText}`);
+        throw createHttpError(`Invalid request: ${res.statusText}`, details);
       } else {
-        const errorText = await res.text();
-        throw new Error(errorText);
+        throw createHttpError(errorText, details);
       }
     }
 
@@ -180,74 +1149,170 @@ export class LingoDotDevEngine {
 
     // when streaming the error is returned in the response body
     if (!jsonResponse.data && jsonResponse.error) {
-      throw new Error(jsonResponse.error);
+      throw new LingoDotDevError(jsonResponse.error, {
+        status: res.status,
+        body: JSON.stringify(jsonResponse),
+        workflowId,
+        chunkIndex,
+      });
     }
 
     return jsonResponse.data || {};
   }
 
+  /**
+   * Send a request, retrying transient failures according to the retry policy
+   * Network errors and retryable statuses are retried with exponential backoff,
+   * honoring the Retry-After header. Aborting the signal stops immediately.
+   * @param url - The URL to request
+   * @param init - Request options, including the optional AbortSignal
+   * @param context - Details attached to network and abort errors
+   * @returns The last response received
+   */
+  private async fetchWithRetry(
+    url: string,
+    init: RequestInit,
+    context: LingoDotDevErrorDetails = {},
+  ): Promise<Response> {
+    const policy = resolveRetryParams(this.config.retry);
+    const signal = init.signal ?? undefined;
+    const fetchImpl = this.config.fetch ?? fetch;
+
+    for (let attempt = 1;; attempt++) {
+      const request: RequestContext = {
+        url,
+        init: { ...init, headers: new Headers(init.headers) },
+        attempt,
+      };
+      await this.config.onRequest?.(request);
+
+      let res: Response;
+      try {
+        res = await fetchImpl(request.url, request.init);
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          throw createAbortedError(error, context);
+        }
+        if (attempt >= policy.maxAttempts) {
+          throw new NetworkError(
+            `Network error: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            { ...context, cause: error },
+          );
+        }
+        await this.waitBeforeRetry(
+          computeRetryDelay(policy, attempt) ?? 0,
+          signal,
+          context,
+        );
+        continue;
+      }
+
+      await this.config.onResponse?.(res, request);
+
+      if (
+        res.ok || attempt >= policy.maxAttempts ||
+        !policy.retryableStatuses.includes(res.status)
+      ) {
+        return res;
+      }
+
+      const delay = computeRetryDelay(
+        policy,
+        attempt,
+        res.headers.get("Retry-After"),
+      );
+      // The server asks to wait longer than allowed: report it instead
+      if (delay === null) {
+        return res;
+      }
+      await res.body?.cancel();
+      await this.waitBeforeRetry(delay, signal, context);
+    }
+  }
+
+  /**
+   * Wait between two attempts, turning an abort into an AbortedError
+   */
+  private async waitBeforeRetry(
+    delay: number,
+    signal: AbortSignal | undefined,
+    context: LingoDotDevErrorDetails,
+  ): Promise<void> {
+    try {
+      await sleep(delay, signal);
+    } catch (error) {
+      throw createAbortedError(error, context);
+    }
+  }
+
   /**
    * Extract payload chunks based on the ideal chunk size
+   * Sizes are measured with the configured `chunkSizing` strategy. The request
+   * of a chunk, keys, hints and glossary included, never grows past
+   * `maxChunkSize` unless a single value is too large on its own.
    * @param payload - The payload to be chunked
+   * @param requestSize - Size of the request sending a chunk
    * @returns An array of payload chunks
    */
   private extractPayloadChunks(
     payload: Record<string, unknown>,
+    requestSize: (chunk: Record<string, string>) => number,
   ): Record<string, string>[] {
+    const measure = createSizer(this.config.chunkSizing ?? "words");
+    const maxSize = this.config.maxChunkSize ?? Infinity;
     const result: Record<string, string>[] = [];
     let currentChunk: Record<string, string> = {};
     let currentChunkItemCount = 0;
+    let currentChunkSize = 0;
 
-    const payloadEntries = Object.entries(payload);
-    for (let i = 0; i < payloadEntries.length; i++) {
-      const [key, value] = payloadEntries[i];
+    for (const [key, value] of Object.entries(payload)) {
       if (typeof value === "string") {
+        const size = measure(value);
+        if (
+          currentChunkItemCount > 0 && maxSize !== Infinity &&
+          requestSize({ ...currentChunk, [key]: value }) > maxSize
+        ) {
+          result.push(currentChunk);
+          currentChunk = {};
+          currentChunkItemCount = 0;
+          currentChunkSize = 0;
+        }
+
         currentChunk[key] = value;
         currentChunkItemCount++;
+        currentChunkSize += size;
 
-        const currentChunkSize = this.countWordsInRecord(currentChunk);
         if (
           currentChunkSize > (this.config.idealBatchItemSize || 250) ||
-          currentChunkItemCount >= (this.config.batchSize || 25) ||
-          i === payloadEntries.length - 1
+          currentChunkItemCount >= (this.config.batchSize || 25)
         ) {
           result.push(currentChunk);
           currentChunk = {};
           currentChunkItemCount = 0;
+          currentChunkSize = 0;
         }
       }
     }
 
-    return result;
-  }
-
-  /**
-   * Count words in a record or array
-   * @param payload - The payload to count words in
-   * @returns The total number of words
-   */
-  private countWordsInRecord(
-    payload: unknown | Record<string, unknown> | Array<unknown>,
-  ): number {
-    if (Array.isArray(payload)) {
-      return payload.reduce(
-        (acc, item) => acc + this.countWordsInRecord(item),
-        0,
-      );
-    } else if (typeof payload === "object" && payload !== null) {
-      return Object.values(payload).reduce(
-        (acc: number, item) => acc + this.countWordsInRecord(item),
-        0,
-      );
-    } else if (typeof payload === "string") {
-      return payload.trim().split(/\s+/).filter(Boolean).length;
-    } else {
-      return 0;
+    // Flush the remainder even when the last entry was not a string
+    if (currentChunkItemCount > 0) {
+      result.push(currentChunk);
     }
+
+    return result;
   }
 
   /**
    * Localize a typical JavaScript object
+   * Nested objects and arrays are walked recursively: only string leaves are
+   * translated, every other value is kept untouched. Chunks passed to the
+   * progress callback are keyed by "/"-separated leaf paths (e.g. "nav/items/0"),
+   * in which "/" and "~" of nested keys are escaped as "~1" and "~0". Top-level
+   * strings keep their key as is.
+   * Hints may be keyed by leaf paths or by the path of any object or array,
+   * in which case they apply to every string below it.
    * @param obj - The object to be localized (strings will be extracted and translated)
    * @param params - Localization parameters:
    *   - sourceLocale: The source language code (e.g., 'en')
@@ -257,8 +1322,8 @@ export class LingoDotDevEngine {
    * @param signal - Optional AbortSignal to cancel the operation
    * @returns A new object with the same structure but localized string values
    */
-  async localizeObject(
-    obj: Record<string, unknown>,
+  async localizeObject<T extends Record<string, unknown>>(
+    obj: T,
     params: LocalizationParams,
     progressCallback?: (
       progress: number,
@@ -266,8 +1331,137 @@ export class LingoDotDevEngine {
       processedChunk: Record<string, string>,
     ) => void,
     signal?: AbortSignal,
-  ): Promise<Record<string, unknown>> {
-    return await this._localizeRaw(obj, params, progressCallback, signal);
+  ): Promise<T> {
+    const flattened = flattenStringLeaves(obj);
+    const localized = await this._localizeRaw(
+      flattened,
+      { ...params, hints: inheritHints(obj, params.hints, flattened) },
+      progressCallback,
+      signal,
+    );
+    return restoreStringLeaves(obj, localized) as T;
+  }
+
+  /**
+   * Localize an object as a resumable job
+   * Every completed chunk is saved to the checkpoint store under the job's
+   * workflow ID. When a run fails, is aborted or runs out of time, running the
+   * job again with the same ID only sends the chunks that did not complete.
+   * Checkpoints are deleted once the job completes, unless `keepCheckpoints`.
+   * @param obj - The object to be localized
+   * @param params - Localization parameters, plus:
+   *   - workflowId: ID of the job, e.g. derived from the content and locale
+   *   - checkpointStore: Optional store (default: the engine's checkpointStore)
+   *   - keepCheckpoints: Optional, keep the checkpoints of a completed job
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns A new object with the same structure but localized string values
+   * @throws ValidationError when no workflow ID or checkpoint store is set
+   */
+  async localizeObjectJob<T extends Record<string, unknown>>(
+    obj: T,
+    params: LocalizationJobParams,
+    progressCallback?: (
+      progress: number,
+      sourceChunk: Record<string, string>,
+      processedChunk: Record<string, string>,
+    ) => void,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (!params.workflowId) {
+      throw new ValidationError("A job requires a workflowId");
+    }
+    if (!params.checkpointStore && !this.config.checkpointStore) {
+      throw new ValidationError("A job requires a checkpoint store");
+    }
+    return await this.localizeObject(obj, params, progressCallback, signal);
+  }
+
+  /**
+   * Localize only what changed in an object since a previous translation
+   * Strings are compared by path with the previous source: new and changed
+   * strings, and strings missing from the previous translation, are
+   * translated; the reviewed translations of unchanged strings are kept as is.
+   * Strings removed from the source are dropped from the result.
+   * @param obj - The current source object
+   * @param previousSource - The source object of the previous translation
+   * @param previousTarget - The previous translation
+   * @param params - Localization parameters
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns The localized object and the changeset
+   */
+  async localizeObjectIncremental<T extends Record<string, unknown>>(
+    obj: T,
+    previousSource: Record<string, unknown>,
+    previousTarget: Record<string, unknown>,
+    params: LocalizationParams,
+    progressCallback?: (
+      progress: number,
+      sourceChunk: Record<string, string>,
+      processedChunk: Record<string, string>,
+    ) => void,
+    signal?: AbortSignal,
+  ): Promise<IncrementalLocalizationResult<T>> {
+    const { pending, reused, changes } = diffSources(
+      flattenStringLeaves(obj),
+      flattenStringLeaves(previousSource),
+      flattenStringLeaves(previousTarget),
+    );
+    const localized = await this._localizeRaw(
+      pending,
+      { ...params, hints: inheritHints(obj, params.hints, pending) },
+      progressCallback,
+      signal,
+    );
+    return {
+      result: restoreStringLeaves(obj, { ...reused, ...localized }) as T,
+      changes,
+    };
+  }
+
+  /**
+   * Localize a typical JavaScript object, yielding chunks as they complete
+   * Chunks are keyed by "/"-separated leaf paths, like in localizeObject.
+   * Breaking out of the iteration cancels the remaining requests.
+   * @param obj - The object to be localized
+   * @param params - Localization parameters
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns An async iterable of { progress, sourceChunk, processedChunk }
+   */
+  localizeObjectStream(
+    obj: Record<string, unknown>,
+    params: LocalizationParams,
+    signal?: AbortSignal,
+  ): AsyncIterable<LocalizationStreamChunk> {
+    const flattened = flattenStringLeaves(obj);
+    return this._localizeRawStream(
+      flattened,
+      { ...params, hints: inheritHints(obj, params.hints, flattened) },
+      signal,
+    );
+  }
+
+  /**
+   * Stream the chunks of a raw localization
+   * @internal
+   */
+  _localizeRawStream(
+    payload: Record<string, unknown>,
+    params: LocalizationParams,
+    signal?: AbortSignal,
+  ): AsyncIterable<LocalizationStreamChunk> {
+    return iterateChunks(
+      (onChunk, streamSignal) =>
+        this._localizeRaw(
+          payload,
+          params,
+          (progress, sourceChunk, processedChunk) =>
+            onChunk({ progress, sourceChunk, processedChunk }),
+          streamSignal,
+        ),
+      signal,
+    );
   }
 
   /**
@@ -298,13 +1492,17 @@ export class LingoDotDevEngine {
 
   /**
    * Localize a text string to multiple target locales
+   * Locales are localized like in localizeObjectToLocales, but the batch
+   * rejects with the error of the first failing locale once every locale has
+   * settled. Use localizeObjectToLocales to keep the successful results.
    * @param text - The text string to be localized
    * @param params - Localization parameters:
    *   - sourceLocale: The source language code (e.g., 'en')
    *   - targetLocales: An array of target language codes (e.g., ['es', 'fr'])
    *   - fast: Optional boolean to enable fast mode (for bigger batches)
+   *   - localeConcurrency: Optional number of locales localized at the same time (default: 4)
    * @param signal - Optional AbortSignal to cancel the operation
-   * @returns An array of localized text strings
+   * @returns An array of localized text strings, in the order of `targetLocales`
    */
   async batchLocalizeText(
     text: string,
@@ -312,25 +1510,174 @@ export class LingoDotDevEngine {
       sourceLocale: LocaleCode;
       targetLocales: LocaleCode[];
       fast?: boolean;
+      localeConcurrency?: number;
     },
     signal?: AbortSignal,
   ): Promise<string[]> {
-    const responses = await Promise.all(
-      params.targetLocales.map((targetLocale) =>
-        this.localizeText(
-          text,
+    const { results, errors, failed } = await this.localizeToLocales(
+      params,
+      signal,
+      (localeParams) =>
+        this.localizeText(text, localeParams, undefined, signal),
+    );
+    if (failed.length > 0) {
+      throw errors[failed[0]];
+    }
+
+    return params.targetLocales.map((locale) => results[locale]!);
+  }
+
+  /**
+   * Localize an object to multiple target locales
+   * A failing locale does not reject the whole batch: it is reported in `errors`.
+   * @param obj - The object to be localized
+   * @param params - Localization parameters with `targetLocales` instead of
+   *   `targetLocale`, and an optional `localeConcurrency` (default: 4)
+   * @param progressCallback - Optional callback reporting progress (0-100) per locale
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns Results and errors keyed by target locale
+   */
+  async localizeObjectToLocales<T extends Record<string, unknown>>(
+    obj: T,
+    params: MultiLocaleParams,
+    progressCallback?: (progress: number, targetLocale: LocaleCode) => void,
+    signal?: AbortSignal,
+  ): Promise<MultiLocaleResult<T>> {
+    return await this.localizeToLocales(
+      params,
+      signal,
+      (localeParams) =>
+        this.localizeObject(
+          obj,
+          localeParams,
+          progressCallback &&
+            ((progress) =>
+              progressCallback(progress, localeParams.targetLocale)),
+          signal,
+        ),
+    );
+  }
+
+  /**
+   * Localize an HTML document to multiple target locales
+   * A failing locale does not reject the whole batch: it is reported in `errors`.
+   * @param html - The HTML document string to be localized
+   * @param params - Localization parameters with `targetLocales` instead of
+   *   `targetLocale`, an optional `localeConcurrency` (default: 4) and the
+   *   HTML options of localizeHtml()
+   * @param progressCallback - Optional callback reporting progress (0-100) per locale
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns Localized documents and errors keyed by target locale
+   */
+  async localizeHtmlToLocales(
+    html: string,
+    params: MultiLocaleParams & HtmlLocalizationOptions,
+    progressCallback?: (progress: number, targetLocale: LocaleCode) => void,
+    signal?: AbortSignal,
+  ): Promise<MultiLocaleResult<string>> {
+    const {
+      localizableAttributes,
+      skipSelectors,
+      segmentInlineMarkup,
+      inlineTags,
+    } = params;
+    return await this.localizeToLocales(
+      params,
+      signal,
+      (localeParams) =>
+        this.localizeHtml(
+          html,
           {
-            sourceLocale: params.sourceLocale,
-            targetLocale,
-            fast: params.fast,
+            ...localeParams,
+            localizableAttributes,
+            skipSelectors,
+            segmentInlineMarkup,
+            inlineTags,
           },
-          undefined,
+          progressCallback &&
+            ((progress) =>
+              progressCallback(progress, localeParams.targetLocale)),
           signal,
-        )
-      ),
+        ),
+    );
+  }
+
+  /**
+   * Localize a chat sequence to multiple target locales
+   * A failing locale does not reject the whole batch: it is reported in `errors`.
+   * @param chat - Array of chat messages, by default with 'name' and 'text' properties
+   * @param params - Localization parameters with `targetLocales` instead of
+   *   `targetLocale`, and an optional `localeConcurrency` (default: 4)
+   * @param progressCallback - Optional callback reporting progress (0-100) per locale
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns Localized chats and errors keyed by target locale
+   */
+  async localizeChatToLocales<T extends object = ChatMessage>(
+    chat: T[],
+    params: MultiLocaleParams & ChatLocalizationOptions,
+    progressCallback?: (progress: number, targetLocale: LocaleCode) => void,
+    signal?: AbortSignal,
+  ): Promise<MultiLocaleResult<T[]>> {
+    const { textField, nameField, speakerHints, onUntranslated } = params;
+    return await this.localizeToLocales(
+      params,
+      signal,
+      (localeParams) =>
+        this.localizeChat(
+          chat,
+          {
+            ...localeParams,
+            textField,
+            nameField,
+            speakerHints,
+            onUntranslated,
+          },
+          progressCallback &&
+            ((progress) =>
+              progressCallback(progress, localeParams.targetLocale)),
+          signal,
+        ),
+    );
+  }
+
+  /**
+   * Run a localization once per target locale, collecting results and errors
+   * @param params - Multi-locale localization parameters
+   * @param signal - Optional AbortSignal; aborting rejects the whole batch
+   * @param localize - Localizes the content for a single locale
+   * @returns Results and errors keyed by target locale
+   */
+  private async localizeToLocales<T>(
+    params: MultiLocaleParams,
+    signal: AbortSignal | undefined,
+    localize: (params: LocalizationParams) => Promise<T>,
+  ): Promise<MultiLocaleResult<T>> {
+    const { targetLocales, localeConcurrency, ...rest } = params;
+    const results: Partial<Record<LocaleCode, T>> = {};
+    const errors: Partial<Record<LocaleCode, unknown>> = {};
+
+    await mapWithConcurrency(
+      targetLocales,
+      validateConcurrency(localeConcurrency ?? 4),
+      async (targetLocale) => {
+        try {
+          results[targetLocale] = await localize({ ...rest, targetLocale });
+        } catch (error) {
+          errors[targetLocale] = error;
+        }
+      },
     );
 
-    return responses;
+    if (signal?.aborted) {
+      throw createAbortedError(signal.reason, {});
+    }
+
+    return {
+      results,
+      errors,
+      succeeded: targetLocales.filter((locale) => locale in results),
+      failed: targetLocales.filter((locale) => locale in errors),
+    };
   }
 
   /**
@@ -358,66 +1705,194 @@ export class LingoDotDevEngine {
     return Object.values(result).map((value) => String(value));
   }
 
+  /**
+   * Localize an array of strings, yielding chunks as they complete
+   * Chunks are keyed "item_<index>".
+   * @param strings - An array of strings to be localized
+   * @param params - Localization parameters
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns An async iterable of { progress, sourceChunk, processedChunk }
+   */
+  localizeStringArrayStream(
+    strings: string[],
+    params: LocalizationParams,
+    signal?: AbortSignal,
+  ): AsyncIterable<LocalizationStreamChunk> {
+    const mapped = Object.fromEntries(
+      strings.map((str, i) => [`item_${i}`, str]),
+    );
+    return this._localizeRawStream(mapped, params, signal);
+  }
+
+  /**
+   * Build the payload of a chat sequence, keyed "chat_<index>"
+   * Messages without a non-empty text are left out.
+   * @param chat - The chat messages
+   * @param params - Localization parameters with the chat options
+   * @returns The payload and its hints, with speaker names when enabled
+   */
+  private chatPayload(
+    chat: object[],
+    params: LocalizationParams & ChatLocalizationOptions,
+  ): { payload: Record<string, string>; hints?: Record<string, string[]> } {
+    const textField = params.textField ?? "text";
+    const nameField = params.nameField ?? "name";
+    const payload: Record<string, string> = {};
+    const hints: Record<string, string[]> = { ...params.hints };
+
+    chat.forEach((message, index) => {
+      const fields = message as Record<string, unknown>;
+      const text = fields[textField];
+      if (typeof text !== "string" || text === "") {
+        return;
+      }
+      const key = `chat_${index}`;
+      payload[key] = text;
+      const name = fields[nameField];
+      if (params.speakerHints && typeof name === "string" && name !== "") {
+        hints[key] = [...(hints[key] ?? []), `Speaker: ${name}`];
+      }
+    });
+
+    return {
+      payload,
+      hints: params.hints || params.speakerHints ? hints : undefined,
+    };
+  }
+
   /**
    * Localize a chat sequence while preserving speaker names
-   * @param chat - Array of chat messages, each with 'name' and 'text' properties
+   * The result has the same length and order as `chat`, and every message
+   * keeps its other properties (ids, timestamps, roles...).
+   * @param chat - Array of chat messages, by default with 'name' and 'text' properties
    * @param params - Localization parameters:
    *   - sourceLocale: The source language code (e.g., 'en')
    *   - targetLocale: The target language code (e.g., 'es')
    *   - fast: Optional boolean to enable fast mode (faster but potentially lower quality)
+   *   - textField: Optional property holding the text (default: "text")
+   *   - nameField: Optional property holding the speaker name (default: "name")
+   *   - speakerHints: Optional boolean to pass speaker names as hints
+   *   - onUntranslated: Optional callback receiving the indexes of messages left untranslated
    * @param progressCallback - Optional callback function to report progress (0-100)
    * @param signal - Optional AbortSignal to cancel the operation
    * @returns Array of localized chat messages with preserved structure
    */
-  async localizeChat(
-    chat: Array<{ name: string; text: string }>,
-    params: LocalizationParams,
+  async localizeChat<T extends object = ChatMessage>(
+    chat: T[],
+    params: ChatLocalizationParams,
     progressCallback?: (progress: number) => void,
     signal?: AbortSignal,
-  ): Promise<Array<{ name: string; text: string }>> {
-    // Convert chat to a string record format
-    const chatRecord = chat.reduce(
-      (acc, message, index) => {
-        acc[`chat_${index}`] = message.text;
-        return acc;
-      },
-      {} as Record<string, string>,
-    );
+  ): Promise<T[]> {
+    const textField = params.textField ?? "text";
+    const { payload, hints } = this.chatPayload(chat, params);
 
     const localized = await this._localizeRaw(
-      chatRecord,
-      params,
+      payload,
+      { ...params, hints },
+      progressCallback,
+      signal,
+    );
+
+    const untranslated: number[] = [];
+    const result = chat.map((message, index) => {
+      const key = `chat_${index}`;
+      if (!(key in payload)) {
+        return { ...message };
+      }
+      const value = localized[key];
+      if (typeof value !== "string") {
+        untranslated.push(index);
+        return { ...message };
+      }
+      return { ...message, [textField]: value };
+    });
+
+    if (untranslated.length > 0) {
+      params.onUntranslated?.(untranslated, params.targetLocale);
+    }
+    return result;
+  }
+
+  /**
+   * Localize an SRT or WebVTT subtitle file
+   * Cue texts are translated as a chat sequence, each with its neighbouring cues
+   * as context so sentences split across cues stay coherent. Timings,
+   * identifiers, cue settings, styling tags and NOTE/STYLE/REGION blocks are
+   * kept as they are.
+   * @param text - The subtitle file
+   * @param params - Localization parameters:
+   *   - sourceLocale: The source language code (e.g., 'en')
+   *   - targetLocale: The target language code (e.g., 'es')
+   *   - format: Optional subtitle format, "srt" or "vtt" (detected by default)
+   *   - contextCues: Optional number of cues before and after passed as context (default: 1)
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns The localized subtitle file
+   */
+  async localizeSubtitles(
+    text: string,
+    params: SubtitleLocalizationParams,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const document = parseSubtitles(text, params);
+    const contextHints = Object.fromEntries(
+      document.context
+        .map((context, index) => [`chat_${index}`, context] as const)
+        .filter(([, context]) => context.length > 0),
+    );
+    const localized = await this.localizeChat(
+      document.cues,
+      { ...params, hints: { ...params.hints, ...contextHints } },
       progressCallback,
       signal,
     );
+    return document.render(localized.map((message) => message.text));
+  }
 
-    return Object.entries(localized).map(([key, value]) => ({
-      name: chat[parseInt(key.split("_")[1])].name,
-      text: value,
-    }));
+  /**
+   * Localize a chat sequence, yielding chunks as they complete
+   * Chunks are keyed "chat_<index>" and hold the message texts.
+   * @param chat - Array of chat messages, by default with 'name' and 'text' properties
+   * @param params - Localization parameters, with the text and name fields and
+   *   speaker hints as in localizeChat()
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns An async iterable of { progress, sourceChunk, processedChunk }
+   */
+  localizeChatStream<T extends object = ChatMessage>(
+    chat: T[],
+    params: ChatLocalizationParams,
+    signal?: AbortSignal,
+  ): AsyncIterable<LocalizationStreamChunk> {
+    const { payload, hints } = this.chatPayload(chat, params);
+    return this._localizeRawStream(payload, { ...params, hints }, signal);
   }
 
   /**
    * Localize an HTML document while preserving structure and formatting
    * Handles both text content and localizable attributes (alt, title, placeholder, meta content)
+   * Skips script, style, code and pre elements, `data-i18n-skip` elements and
+   * content marked `translate="no"`.
    * @param html - The HTML document string to be localized
    * @param params - Localization parameters:
    *   - sourceLocale: The source language code (e.g., 'en')
    *   - targetLocale: The target language code (e.g., 'es')
    *   - fast: Optional boolean to enable fast mode (faster but potentially lower quality)
+   *   - localizableAttributes: Optional extra attributes to translate per tag ("*" for any)
+   *   - skipSelectors: Optional CSS selectors of elements to leave untranslated
    * @param progressCallback - Optional callback function to report progress (0-100)
    * @param signal - Optional AbortSignal to cancel the operation
    * @returns The localized HTML document as a string, with updated lang attribute
    */
   async localizeHtml(
     html: string,
-    params: LocalizationParams,
+    params: HtmlLocalizationParams,
     progressCallback?: (progress: number) => void,
     signal?: AbortSignal,
   ): Promise<string> {
     // Check if DOMParser is available (it's available in Deno with --allow-env flag)
     if (typeof DOMParser === "undefined") {
-      // Fallback to a simple regex-based approach for environments without DOMParser
+      // Fall back to the built-in tokenizer in environments without DOMParser
       return this.localizeHtmlSimple(html, params, progressCallback, signal);
     }
 
@@ -425,14 +1900,6 @@ export class LingoDotDevEngine {
     const parser = new DOMParser();
     const doc = parser.parseFromString(html, "text/html");
 
-    const LOCALIZABLE_ATTRIBUTES: Record<string, string[]> = {
-      meta: ["content"],
-      img: ["alt"],
-      input: ["placeholder"],
-      a: ["title"],
-    };
-    const UNLOCALIZABLE_TAGS = ["script", "style"];
-
     const extractedContent: Record<string, string> = {};
 
     const getPath = (node: Node, attribute?: string): string => {
@@ -466,57 +1933,71 @@ export class LingoDotDevEngine {
       return attribute ? `${basePath}#${attribute}` : basePath;
     };
 
-    const processNode = (node: Node) => {
-      let parent = node.parentElement;
-      while (parent) {
-        if (UNLOCALIZABLE_TAGS.includes(parent.tagName.toLowerCase())) {
-          return;
-        }
-        parent = parent.parentElement;
-      }
+    const rules = createHtmlRules(params);
+    const isIncluded = (n: Node) =>
+      n.nodeType === 1 || (n.nodeType === 3 && !!n.textContent?.trim());
+
+    const segments: Record<string, InlineSegment<Node>> = {};
+    const adapter: InlineTreeAdapter<Node> = {
+      text: (n) => n.nodeType === 3 ? n.textContent ?? "" : null,
+      view: (n) => domElementView(n as Element),
+      children: (n) =>
+        Array.from(n.childNodes).filter((c) =>
+          c.nodeType === 1 || c.nodeType === 3
+        ),
+    };
 
+    const processNode = (node: Node, inherited: boolean, inSegment = false) => {
       if (node.nodeType === 3) {
         const text = node.textContent?.trim() || "";
-        if (text) {
+        if (text && inherited && !inSegment) {
           extractedContent[getPath(node)] = text;
         }
       } else if (node.nodeType === 1) {
         const element = node as Element;
-        const tagName = element.tagName.toLowerCase();
+        const view = domElementView(element);
+        const translates = rules.translates(view, inherited);
+        if (translates === null) {
+          return;
+        }
 
-        const attributes = LOCALIZABLE_ATTRIBUTES[tagName] || [];
-        attributes.forEach((attr) => {
-          const value = element.getAttribute(attr);
-          if (value) {
-            extractedContent[getPath(element, attr)] = value;
-          }
-        });
+        if (translates) {
+          rules.attributesFor(view).forEach((attr) => {
+            const value = element.getAttribute(attr);
+            if (value?.trim()) {
+              extractedContent[getPath(element, attr)] = value;
+            }
+          });
+        }
+
+        const segment = translates && !inSegment
+          ? createInlineSegment(node, adapter, rules)
+          : null;
+        if (segment) {
+          extractedContent[getPath(element)] = segment.text;
+          segments[getPath(element)] = segment;
+        }
 
         Array.from(element.childNodes)
-          .filter(
-            (n) =>
-              n.nodeType === 1 || (n.nodeType === 3 && n.textContent?.trim()),
-          )
-          .forEach(processNode);
+          .filter(isIncluded)
+          .forEach((child) =>
+            processNode(child, translates, inSegment || !!segment)
+          );
       }
     };
 
-    if (doc.head) {
-      Array.from(doc.head.childNodes)
-        .filter(
-          (n) =>
-            n.nodeType === 1 || (n.nodeType === 3 && n.textContent?.trim()),
-        )
-        .forEach(processNode);
-    }
-
-    if (doc.body) {
-      Array.from(doc.body.childNodes)
-        .filter(
-          (n) =>
-            n.nodeType === 1 || (n.nodeType === 3 && n.textContent?.trim()),
-        )
-        .forEach(processNode);
+    const translatesRoot = doc.documentElement
+      ? rules.translates(domElementView(doc.documentElement), true)
+      : true;
+    for (const section of [doc.head, doc.body]) {
+      const translates = section && translatesRoot !== null
+        ? rules.translates(domElementView(section), translatesRoot)
+        : null;
+      if (section && translates !== null) {
+        Array.from(section.childNodes)
+          .filter(isIncluded)
+          .forEach((child) => processNode(child, translates));
+      }
     }
 
     const localizedContent = await this._localizeRaw(
@@ -528,10 +2009,16 @@ export class LingoDotDevEngine {
 
     // Update the DOM with localized content
     if (doc.documentElement) {
-      doc.documentElement.setAttribute("lang", params.targetLocale);
+      const targetLocale = this.normalizeTargetLocale(params.targetLocale);
+      const direction = getTextDirection(targetLocale);
+      doc.documentElement.setAttribute("lang", targetLocale);
+      if (direction === "rtl" || doc.documentElement.hasAttribute("dir")) {
+        doc.documentElement.setAttribute("dir", direction);
+      }
     }
 
-    Object.entries(localizedContent).forEach(([path, value]) => {
+    // Resolve every path before segments reorder the elements they contain
+    const targets = Object.entries(localizedContent).map(([path, value]) => {
       const [nodePath, attribute] = path.split("#");
       const [rootTag, ...indices] = nodePath.split("/");
 
@@ -551,104 +2038,172 @@ export class LingoDotDevEngine {
         }
       }
 
-      if (current) {
-        if (attribute) {
-          (current as Element).setAttribute(attribute, value);
+      return { path, value, attribute, node: current };
+    });
+
+    for (const { path, value, attribute, node } of targets) {
+      if (node && attribute) {
+        (node as Element).setAttribute(attribute, value);
+      } else if (node && !segments[path]) {
+        node.textContent = value;
+      }
+    }
+
+    for (const { path, value, node } of targets) {
+      const segment = segments[path];
+      if (!node || !segment) {
+        continue;
+      }
+      const parents: Node[] = [node];
+      (node as Element).replaceChildren();
+      for (const part of restoreSegment(segment, value, path)) {
+        const parent = parents[parents.length - 1];
+        if (part.type === "text") {
+          parent.appendChild(doc.createTextNode(part.text));
+        } else if (part.type === "close") {
+          parents.pop();
+        } else if (part.type === "opaque") {
+          parent.appendChild(segment.elements[part.index].node);
         } else {
-          current.textContent = value;
+          const clone = segment.elements[part.index].node.cloneNode(false);
+          parent.appendChild(clone);
+          parents.push(clone);
         }
       }
-    });
+    }
 
-    return doc.documentElement?.outerHTML || html;
+    if (!doc.documentElement) {
+      return html;
+    }
+    // outerHTML leaves out the doctype, so keep what precedes <html> as is
+    const prologue = /^[\s\S]*?(?=<html[\s>])/i.exec(html)?.[0] ?? "";
+    return prologue + doc.documentElement.outerHTML;
   }
 
   /**
-   * Simple HTML localization fallback for environments without DOMParser
+   * HTML localization fallback for environments without DOMParser
+   * Uses a built-in tokenizer producing the same keys as the DOMParser path,
+   * and replaces every string at its exact position in the source.
    */
   private async localizeHtmlSimple(
     html: string,
-    params: LocalizationParams,
+    params: HtmlLocalizationParams,
     progressCallback?: (progress: number) => void,
     signal?: AbortSignal,
   ): Promise<string> {
-    // Simple regex-based extraction of text content and common attributes
-    const extractedContent: Record<string, string> = {};
-    let counter = 0;
-
-    // Extract text content between tags (excluding script and style)
-    let tempHtml = html;
-
-    // Remove script and style content
-    tempHtml = tempHtml.replace(
-      /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
-      "",
+    const document = parseHtml(html, createHtmlRules(params));
+    const localizedContent = await this._localizeRaw(
+      document.content,
+      params,
+      progressCallback,
+      signal,
     );
-    tempHtml = tempHtml.replace(
-      /<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi,
-      "",
+    return document.render(
+      localizedContent,
+      this.normalizeTargetLocale(params.targetLocale),
     );
+  }
 
-    // Extract text content
-    const textMatches = tempHtml.match(/>([^<]+)</g);
-    if (textMatches) {
-      textMatches.forEach((match) => {
-        const text = match.slice(1, -1).trim();
-        if (text && text.length > 0) {
-          extractedContent[`text_${counter++}`] = text;
-        }
-      });
-    }
-
-    // Extract common localizable attributes
-    const attributePatterns = [
-      /title="([^"]+)"/gi,
-      /alt="([^"]+)"/gi,
-      /placeholder="([^"]+)"/gi,
-      /content="([^"]+)"/gi,
-    ];
-
-    attributePatterns.forEach((pattern, patternIndex) => {
-      const matches = html.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1] && match[1].trim()) {
-          extractedContent[`attr_${patternIndex}_${counter++}`] = match[1];
-        }
-      }
-    });
+  /**
+   * Localize an XLIFF 1.2 or 2.0 document
+   * Translates the <source> of every unit without a target (or all units with
+   * `overwrite`) into a <target>, keeping inline elements such as <g>, <x/>,
+   * <ph> and <pc> in place. Unit notes are passed as hints, and the target
+   * state and target language are updated.
+   * @param xliff - The XLIFF document
+   * @param params - Localization parameters:
+   *   - sourceLocale: The source language code (e.g., 'en')
+   *   - targetLocale: The target language code (e.g., 'es')
+   *   - fast: Optional boolean to enable fast mode (faster but potentially lower quality)
+   *   - overwrite: Optional boolean to retranslate units that already have a target
+   *   - targetState: Optional state of the new targets (default: "translated")
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns The localized XLIFF document
+   */
+  async localizeXliff(
+    xliff: string,
+    params: XliffLocalizationParams,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const document = parseXliff(xliff, params);
+    const localizedContent = await this._localizeRaw(
+      document.content,
+      { ...params, hints: { ...params.hints, ...document.hints } },
+      progressCallback,
+      signal,
+    );
+    return document.render(
+      localizedContent,
+      this.normalizeTargetLocale(params.targetLocale),
+    );
+  }
 
-    // Translate the extracted content
+  /**
+   * Localize a Markdown document while preserving its formatting
+   * Translates headings, paragraphs, lists, block quotes, table cells, link
+   * and image text and front matter values. Code blocks, inline code, URLs,
+   * HTML and link reference definitions are left untouched.
+   * @param markdown - The Markdown document to be localized
+   * @param params - Localization parameters:
+   *   - sourceLocale: The source language code (e.g., 'en')
+   *   - targetLocale: The target language code (e.g., 'es')
+   *   - fast: Optional boolean to enable fast mode (faster but potentially lower quality)
+   *   - frontMatterKeys: Optional front matter keys to translate (default: title, description, summary)
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns The localized Markdown document
+   */
+  async localizeMarkdown(
+    markdown: string,
+    params: MarkdownLocalizationParams,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const document = parseMarkdown(markdown, params);
     const localizedContent = await this._localizeRaw(
-      extractedContent,
+      document.content,
       params,
       progressCallback,
       signal,
     );
+    return document.render(localizedContent);
+  }
 
-    // Replace the content back in the HTML
-    let localizedHtml = html;
-
-    // Update lang attribute
-    localizedHtml = localizedHtml.replace(
-      /<html([^>]*)>/i,
-      `<html$1 lang="${params.targetLocale}">`,
+  /**
+   * Localize a gettext PO or POT file
+   * Translates msgid and msgid_plural of the entries without a translation (or
+   * marked fuzzy), passing msgctxt and comments as hints, and writes them back
+   * as msgstr. The Language header is set to the target locale.
+   * @param poText - The PO or POT file content
+   * @param params - Localization parameters:
+   *   - sourceLocale: The source language code (e.g., 'en')
+   *   - targetLocale: The target language code (e.g., 'es')
+   *   - fast: Optional boolean to enable fast mode (faster but potentially lower quality)
+   *   - overwrite: Optional boolean to retranslate entries that already have a msgstr
+   *   - markFuzzy: Optional boolean to flag new translations as fuzzy
+   * @param progressCallback - Optional callback function to report progress (0-100)
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns The localized PO file
+   */
+  async localizePo(
+    poText: string,
+    params: PoLocalizationParams,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const document = parsePo(poText, params);
+    const localizedContent = await this._localizeRaw(
+      document.content,
+      { ...params, hints: { ...params.hints, ...document.hints } },
+      progressCallback,
+      signal,
+    );
+    return document.render(
+      localizedContent,
+      this.normalizeTargetLocale(params.targetLocale),
     );
-
-    // Replace text content and attributes
-    Object.entries(localizedContent).forEach(([key, value]) => {
-      const originalValue = extractedContent[key];
-      if (originalValue) {
-        // Escape special regex characters
-        const escapedOriginal = originalValue.replace(
-          /[.*+?^${}()|[\]\\]/g,
-          "\\$&",
-        );
-        const regex = new RegExp(escapedOriginal, "g");
-        localizedHtml = localizedHtml.replace(regex, value);
-      }
-    });
-
-    return localizedHtml;
   }
 
   /**
@@ -661,29 +2216,133 @@ export class LingoDotDevEngine {
     text: string,
     signal?: AbortSignal,
   ): Promise<LocaleCode> {
-    const response = await fetch(`${this.config.apiUrl}/recognize`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json; charset=utf-8",
-        Authorization: `Bearer ${this.config.apiKey}`,
+    const response = await this.fetchWithRetry(
+      `${this.config.apiUrl}/recognize`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({ text }),
+        signal,
       },
-      body: JSON.stringify({ text }),
-      signal,
-    });
+    );
 
     if (!response.ok) {
+      const details = {
+        status: response.status,
+        body: await response.text(),
+        retryAfter: parseRetryAfter(response.headers.get("Retry-After")) ??
+          undefined,
+      };
       if (response.status >= 500 && response.status < 600) {
-        throw new Error(
+        throw createHttpError(
           `Server error (${response.status}): ${response.statusText}. This may be due to temporary service issues.`,
+          details,
         );
       }
-      throw new Error(`Error recognizing locale: ${response.statusText}`);
+      throw createHttpError(
+        `Error recognizing locale: ${response.statusText}`,
+        details,
+      );
     }
 
     const jsonResponse = await response.json();
     return jsonResponse.locale;
   }
 
+  /**
+   * Get the locales supported by the API
+   * The result is cached for `supportedLocalesTtl` (default: 1 hour), and
+   * localizations validate their locales against it while it is cached.
+   * @param options - Set `refresh` to bypass the cache
+   * @param signal - Optional AbortSignal to cancel the operation
+   * @returns Supported source and target locales, and the targets supporting fast mode
+   */
+  async getSupportedLocales(
+    options: { refresh?: boolean } = {},
+    signal?: AbortSignal,
+  ): Promise<SupportedLocales> {
+    const cached = !options.refresh && this.cachedSupportedLocales();
+    if (cached) {
+      return cached;
+    }
+    // Concurrent callers share a single request, which none of them can abort
+    this.supportedLocalesRequest ??= this.fetchSupportedLocales()
+      .then((value) => {
+        this.supportedLocales = {
+          value,
+          expiresAt: Date.now() + this.config.supportedLocalesTtl!,
+        };
+        return value;
+      })
+      .finally(() => {
+        this.supportedLocalesRequest = undefined;
+      });
+    return await abortable(this.supportedLocalesRequest, signal);
+  }
+
+  /**
+   * The supported locales from the last discovery, unless expired
+   * @returns The cached supported locales, or undefined
+   */
+  private cachedSupportedLocales(): SupportedLocales | undefined {
+    const cached = this.supportedLocales;
+    return cached && cached.expiresAt > Date.now() ? cached.value : undefined;
+  }
+
+  /**
+   * Canonicalize a target locale, validated like the localization requests
+   * @param targetLocale - The target locale
+   * @returns The supported locale code
+   */
+  private normalizeTargetLocale(targetLocale: string): LocaleCode {
+    return resolveLocale(targetLocale, this.cachedSupportedLocales()?.target);
+  }
+
+  private async fetchSupportedLocales(): Promise<SupportedLocales> {
+    const response = await this.fetchWithRetry(
+      `${this.config.apiUrl}/locales`,
+      {
+        method: "GET",
+        headers: { Authorization: `Bearer ${this.config.apiKey}` },
+      },
+    );
+
+    if (!response.ok) {
+      const details = {
+        status: response.status,
+        body: await response.text(),
+        retryAfter: parseRetryAfter(response.headers.get("Retry-After")) ??
+          undefined,
+      };
+      if (response.status >= 500 && response.status < 600) {
+        throw createHttpError(
+          `Server error (${response.status}): ${response.statusText}. This may be due to temporary service issues.`,
+          details,
+        );
+      }
+      throw createHttpError(
+        `Error listing supported locales: ${response.statusText}`,
+        details,
+      );
+    }
+
+    const payload = await response.json();
+    if (!Array.isArray(payload?.source) || !Array.isArray(payload?.target)) {
+      throw new LingoDotDevError(
+        "Unexpected response listing supported locales",
+        { status: response.status, body: JSON.stringify(payload) },
+      );
+    }
+    return {
+      source: payload.source,
+      target: payload.target,
+      ...(Array.isArray(payload.fast) ? { fast: payload.fast } : {}),
+    };
+  }
+
   /**
    * Get user information
    * @param signal - Optional AbortSignal to cancel the operation
@@ -693,7 +2352,7 @@ export class LingoDotDevEngine {
     signal?: AbortSignal,
   ): Promise<{ email: string; id: string } | null> {
     try {
-      const res = await fetch(`${this.config.apiUrl}/whoami`, {
+      const res = await this.fetchWithRetry(`${this.config.apiUrl}/whoami`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${this.config.apiKey}`,
@@ -715,14 +2374,15 @@ export class LingoDotDevEngine {
       }
 
       if (res.status >= 500 && res.status < 600) {
-        throw new Error(
+        throw new ServerError(
           `Server error (${res.status}): ${res.statusText}. This may be due to temporary service issues.`,
+          { status: res.status, body: await res.text() },
         );
       }
 
       return null;
     } catch (error) {
-      if (error instanceof Error && error.message.includes("Server error")) {
+      if (error instanceof ServerError) {
         throw error;
       }
       return null;
@@ -769,4 +2429,72 @@ export class LingoEngine extends LingoDotDevEngine {
 }
 
 // Export types
-export type { LocaleCode } from "./types.ts";
+export { LOCALE_CODES, type LocaleCode } from "./types.ts";
+export {
+  canonicalizeLocale,
+  getLocaleFallbacks,
+  getLocaleInfo,
+  getTextDirection,
+  isSupportedLocale,
+  type LocaleInfo,
+  normalizeLocale,
+  type SupportedLocales,
+} from "./locale.ts";
+export type { RetryParams } from "./retry.ts";
+export { type ChunkSizing, createSizer, splitText } from "./chunking.ts";
+export {
+  type LocalizationStreamChunk,
+  type LocalizationStreamOptions,
+  toReadableStream,
+} from "./stream.ts";
+export { type ProtectedPayload, protectPlaceholders } from "./placeholders.ts";
+export type { HtmlLocalizationOptions } from "./html.ts";
+export type { MarkdownLocalizationOptions } from "./markdown.ts";
+export type { PoLocalizationOptions } from "./po.ts";
+export type { SubtitleLocalizationOptions } from "./subtitles.ts";
+export type { XliffLocalizationOptions } from "./xliff.ts";
+export type { LocalizationChangeset } from "./incremental.ts";
+export {
+  type CheckpointStore,
+  type ChunkCheckpoint,
+  DenoKvCheckpointStore,
+  FileCheckpointStore,
+  type KvCheckpointBackend,
+  type LocalizationJobOptions,
+  MemoryCheckpointStore,
+} from "./checkpoint.ts";
+export {
+  pseudoLocalize,
+  type PseudoLocalizeOptions,
+  pseudoLocalizeRecord,
+} from "./pseudo.ts";
+export {
+  type CacheKeyParts,
+  createCacheKey,
+  DenoKvTranslationCache,
+  type KvStore,
+  MemoryTranslationCache,
+  type TranslationCache,
+} from "./cache.ts";
+export {
+  checkGlossary,
+  findGlossaryTerms,
+  type Glossary,
+  type GlossaryViolation,
+} from "./glossary.ts";
+export {
+  MemoryTranslationMemory,
+  type TranslationMemory,
+  type TranslationMemoryEntry,
+} from "./memory.ts";
+export {
+  AbortedError,
+  AuthenticationError,
+  GlossaryViolationError,
+  LingoDotDevError,
+  type LingoDotDevErrorDetails,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from "./errors.ts";
@@ -0,0 +1,387 @@
+import { type LingoDotDevErrorDetails, ValidationError } from "./errors.ts";
+
+/**
+ * A placeholder found in a message
+ *   - simple: kept verbatim ({name}, {{name}}, %s, {n, number}, #)
+ *   - complex: an ICU plural/select whose branches are translated separately
+ */
+type Placeholder =
+  | { kind: "simple"; raw: string }
+  | {
+    kind: "complex";
+    header: string;
+    branches: Array<{ prefix: string; message: ParsedMessage }>;
+    tail: string;
+  };
+
+interface ParsedMessage {
+  /** Text with placeholders replaced by tokens, e.g. "Hi ⟦0⟧" */
+  frame: string;
+  placeholders: Placeholder[];
+}
+
+const PLURAL_TYPES = ["plural", "selectordinal"];
+const BRANCHING_TYPES = [...PLURAL_TYPES, "select"];
+const ARGUMENT_NAME = /^\s*[\w.$-]+\s*$/;
+const PRINTF_PLACEHOLDER = /^%(?:\d+\$)?[sdifu@]/;
+const TOKEN = /⟦(\d+)⟧/g;
+
+function token(index: number): string {
+  return `⟦${index}⟧`;
+}
+
+/**
+ * Find the "}" closing the "{" at `start`
+ * @param text - The text
+ * @param start - Index of the "{"
+ * @returns Index of the closing "}", or -1 when unbalanced
+ */
+export function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") {
+      depth++;
+    } else if (text[i] === "}") {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+// Parse the branches of "{name, plural, one {...} other {...}}"
+function parseBranchingArgument(
+  raw: string,
+  header: string,
+  inPlural: boolean,
+): Placeholder | null {
+  const branches: Array<{ prefix: string; message: ParsedMessage }> = [];
+  const body = raw.slice(header.length, -1);
+  let position = 0;
+
+  while (position < body.length) {
+    const rest = body.slice(position);
+    const match = rest.match(/^(\s*(?:offset:\d+\s+)?[^\s{}]+\s*)\{/);
+    if (!match) {
+      break;
+    }
+    const open = position + match[1].length;
+    const close = findClosingBrace(body, open);
+    if (close === -1) {
+      return null;
+    }
+    branches.push({
+      prefix: body.slice(position, open + 1),
+      message: parseMessage(body.slice(open + 1, close), inPlural),
+    });
+    position = close + 1;
+  }
+
+  if (branches.length === 0 || body.slice(position).trim() !== "") {
+    return null;
+  }
+  return {
+    kind: "complex",
+    header,
+    branches,
+    tail: body.slice(position) + "}",
+  };
+}
+
+// Parse an ICU argument starting at `start`, or return null for literal text
+function parseArgument(
+  text: string,
+  start: number,
+  inPlural: boolean,
+): { placeholder: Placeholder; end: number } | null {
+  const end = findClosingBrace(text, start);
+  if (end === -1) {
+    return null;
+  }
+
+  const raw = text.slice(start, end + 1);
+  const parts = raw.slice(1, -1).split(",");
+  if (!ARGUMENT_NAME.test(parts[0])) {
+    return null;
+  }
+  if (parts.length === 1) {
+    return { placeholder: { kind: "simple", raw }, end: end + 1 };
+  }
+
+  const type = parts[1].trim();
+  if (!BRANCHING_TYPES.includes(type)) {
+    return { placeholder: { kind: "simple", raw }, end: end + 1 };
+  }
+
+  const header = `{${parts[0]},${parts[1]},`;
+  const placeholder = parseBranchingArgument(
+    raw,
+    header,
+    PLURAL_TYPES.includes(type) || (type === "select" && inPlural),
+  );
+  return placeholder ? { placeholder, end: end + 1 } : null;
+}
+
+function parseMessage(text: string, inPlural: boolean): ParsedMessage {
+  const placeholders: Placeholder[] = [];
+  let frame = "";
+  let i = 0;
+
+  const addPlaceholder = (placeholder: Placeholder) => {
+    frame += token(placeholders.length);
+    placeholders.push(placeholder);
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    if (rest.startsWith("{{")) {
+      const end = text.indexOf("}}", i + 2);
+      if (end !== -1) {
+        addPlaceholder({ kind: "simple", raw: text.slice(i, end + 2) });
+        i = end + 2;
+        continue;
+      }
+    } else if (text[i] === "{") {
+      const argument = parseArgument(text, i, inPlural);
+      if (argument) {
+        addPlaceholder(argument.placeholder);
+        i = argument.end;
+        continue;
+      }
+    } else if (text[i] === "%") {
+      const match = rest.match(PRINTF_PLACEHOLDER);
+      if (match) {
+        addPlaceholder({ kind: "simple", raw: match[0] });
+        i += match[0].length;
+        continue;
+      }
+    } else if (text[i] === "#" && inPlural) {
+      addPlaceholder({ kind: "simple", raw: "#" });
+      i++;
+      continue;
+    }
+
+    frame += text[i];
+    i++;
+  }
+
+  return { frame, placeholders };
+}
+
+function countTokens(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(TOKEN)) {
+    counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function sameTokens(source: string, translated: string): boolean {
+  const expected = countTokens(source);
+  const actual = countTokens(translated);
+  if (expected.size !== actual.size) {
+    return false;
+  }
+  for (const [key, count] of expected) {
+    if (actual.get(key) !== count) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Whether a frame contains anything worth translating besides tokens
+function hasText(frame: string): boolean {
+  return /[\p{L}\p{N}]/u.test(frame.replace(TOKEN, ""));
+}
+
+/**
+ * Result of protecting the placeholders of a payload chunk
+ */
+export interface ProtectedPayload {
+  /** Strings to send, with placeholders replaced by opaque tokens */
+  data: Record<string, string>;
+  /** Hints re-keyed to match `data` */
+  hints?: Record<string, string[]>;
+  /**
+   * Validate the translated units and rebuild the original messages
+   * Throws a ValidationError when a placeholder was lost or altered.
+   */
+  restore(
+    translated: Record<string, string>,
+    details?: LingoDotDevErrorDetails,
+  ): Record<string, string>;
+}
+
+/**
+ * Replace placeholders and ICU arguments with opaque tokens before sending
+ * Plural and select branches become separate units keyed
+ * "<key>::icu/<placeholder>/<branch>" so they are translated individually.
+ * @param data - Flat record of strings to be localized
+ * @param hints - Optional hints keyed like `data`
+ * @returns The protected payload and a function restoring the translations
+ */
+export function protectPlaceholders(
+  data: Record<string, string>,
+  hints?: Record<string, string[]>,
+): ProtectedPayload {
+  const units: Record<string, string> = {};
+  const unitHints: Record<string, string[]> = {};
+  const parsed: Record<string, ParsedMessage> = {};
+
+  const collect = (key: string, sourceKey: string, message: ParsedMessage) => {
+    if (hasText(message.frame)) {
+      units[key] = message.frame;
+      if (hints?.[sourceKey]) {
+        unitHints[key] = hints[sourceKey];
+      }
+    }
+    message.placeholders.forEach((placeholder, index) => {
+      if (placeholder.kind === "complex") {
+        placeholder.branches.forEach((branch, branchIndex) => {
+          collect(
+            `${key}::icu/${index}/${branchIndex}`,
+            sourceKey,
+            branch.message,
+          );
+        });
+      }
+    });
+  };
+
+  for (const [key, value] of Object.entries(data)) {
+    parsed[key] = parseMessage(value, false);
+    collect(key, key, parsed[key]);
+  }
+
+  const rebuild = (
+    key: string,
+    message: ParsedMessage,
+    translated: Record<string, string>,
+    details: LingoDotDevErrorDetails,
+  ): string | undefined => {
+    let frame = message.frame;
+    if (hasText(message.frame)) {
+      if (!(key in translated)) {
+        return undefined;
+      }
+      frame = translated[key];
+      if (!sameTokens(message.frame, frame)) {
+        throw new ValidationError(
+          `Placeholder mismatch in "${key}": expected "${message.frame}", got "${frame}"`,
+          details,
+        );
+      }
+    }
+
+    const restored: string[] = [];
+    for (let index = 0; index < message.placeholders.length; index++) {
+      const placeholder = message.placeholders[index];
+      if (placeholder.kind === "simple") {
+        restored.push(placeholder.raw);
+        continue;
+      }
+      let result = placeholder.header;
+      for (let b = 0; b < placeholder.branches.length; b++) {
+        const branch = placeholder.branches[b];
+        const content = rebuild(
+          `${key}::icu/${index}/${b}`,
+          branch.message,
+          translated,
+          details,
+        );
+        if (content === undefined) {
+          return undefined;
+        }
+        result += `${branch.prefix}${content}}`;
+      }
+      restored.push(result + placeholder.tail);
+    }
+
+    return frame.replace(TOKEN, (_, index) => restored[Number(index)]);
+  };
+
+  return {
+    data: units,
+    hints: hints ? unitHints : undefined,
+    restore(translated, details = {}) {
+      const result: Record<string, string> = {};
+      for (const [key, message] of Object.entries(parsed)) {
+        const value = rebuild(key, message, translated, details);
+        if (value !== undefined) {
+          result[key] = value;
+        }
+      }
+      return result;
+    },
+  };
+}
+
+// Key of a placeholder used to pair it with the same one in a translation
+function placeholderKey(placeholder: Placeholder): string {
+  return placeholder.kind === "simple"
+    ? placeholder.raw
+    : placeholder.header.replace(/\s+/g, "");
+}
+
+// Pair the units of a message with those of its translation
+function pairUnits(
+  source: ParsedMessage,
+  target: ParsedMessage,
+  result: Record<string, string>,
+): void {
+  // Number the tokens of the translation like those of the source, so
+  // reordered placeholders still match
+  const used = new Set<number>();
+  const indexes = target.placeholders.map((placeholder) => {
+    const key = placeholderKey(placeholder);
+    const index = source.placeholders.findIndex((candidate, i) =>
+      !used.has(i) && placeholderKey(candidate) === key
+    );
+    used.add(index);
+    return index;
+  });
+  if (indexes.includes(-1)) {
+    return;
+  }
+  if (hasText(source.frame)) {
+    result[source.frame] = target.frame.replace(
+      TOKEN,
+      (_, index) => token(indexes[Number(index)]),
+    );
+  }
+
+  target.placeholders.forEach((placeholder, i) => {
+    const counterpart = source.placeholders[indexes[i]];
+    if (placeholder.kind !== "complex" || counterpart.kind !== "complex") {
+      return;
+    }
+    for (const branch of placeholder.branches) {
+      const match = counterpart.branches.find((candidate) =>
+        candidate.prefix.trim() === branch.prefix.trim()
+      );
+      if (match) {
+        pairUnits(match.message, branch.message, result);
+      }
+    }
+  });
+}
+
+/**
+ * Key translations by the protected units sent instead of the messages
+ * Every message and ICU branch is paired with its translation, e.g.
+ * "Hello {name}" → "Hola {name}" gives "Hello ⟦0⟧" → "Hola ⟦0⟧".
+ * @param translations - Translations keyed by source message
+ * @returns Translated units keyed by source unit
+ */
+export function protectTranslations(
+  translations: Record<string, string>,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [source, target] of Object.entries(translations)) {
+    pairUnits(parseMessage(source, false), parseMessage(target, false), result);
+  }
+  return result;
+}
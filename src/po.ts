@@ -0,0 +1,455 @@
+/**
+ * Options controlling what localizePo translates
+ */
+export interface PoLocalizationOptions {
+  /** Retranslate entries that already have a translation (default: false) */
+  overwrite?: boolean;
+  /** Flag new translations as fuzzy so they get reviewed (default: false) */
+  markFuzzy?: boolean;
+}
+
+/**
+ * A parsed PO or POT file with its localizable content
+ */
+export interface PoDocument {
+  /**
+   * Strings to translate, keyed "entry/<n>" for the msgid of the n-th entry
+   * and "entry/<n>/plural" for its msgid_plural
+   */
+  content: Record<string, string>;
+  /** Context, translator and extracted comments keyed like `content` */
+  hints: Record<string, string[]>;
+  /**
+   * Rebuild the file with the translations as msgstr values
+   * Entries and lines that are not translated are kept verbatim.
+   */
+  render(localized: Record<string, string>, locale: string): string;
+}
+
+interface PoEntry {
+  index: number;
+  translatorComments: string[];
+  extractedComments: string[];
+  flags: string[];
+  /** Line of the "#," flags comment, or -1 */
+  flagsLine: number;
+  /** Lines of "#|" previous msgid comments */
+  previousLines: number[];
+  /** First line of the msgctxt/msgid keywords */
+  keywordLine: number;
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+  /** Line range of the msgstr keywords and their continuations */
+  msgstrStart: number;
+  msgstrEnd: number;
+}
+
+const KEYWORD =
+  /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"\s*$/;
+const CONTINUATION = /^"(.*)"\s*$/;
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (_, char) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      default:
+        return char;
+    }
+  });
+}
+
+function escapePo(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n");
+}
+
+// Serialize a keyword, splitting multi-line values after every line break
+function formatKeyword(keyword: string, value: string): string[] {
+  const lines = value.split(/(?<=\n)(?!$)/);
+  if (lines.length === 1) {
+    return [`${keyword} "${escapePo(value)}"`];
+  }
+  return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)];
+}
+
+// Binary operators of Plural-Forms expressions, loosest binding first
+const BINARY_OPERATORS = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<=", ">=", "<", ">"],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+const PLURAL_TOKEN = /\s*(\d+|n|\|\||&&|[=!<>]=|[-+*/%<>!?:()])/y;
+
+// Evaluate a Plural-Forms C expression for a given n, without dynamic code
+// Returns undefined for anything outside the C subset gettext uses
+function evaluatePlural(expression: string, n: number): number | undefined {
+  const tokens: string[] = [];
+  PLURAL_TOKEN.lastIndex = 0;
+  while (PLURAL_TOKEN.lastIndex < expression.length) {
+    const match = PLURAL_TOKEN.exec(expression);
+    if (!match) {
+      return /^\s*$/.test(expression.slice(PLURAL_TOKEN.lastIndex))
+        ? evaluateTokens(tokens, n)
+        : undefined;
+    }
+    tokens.push(match[1]);
+  }
+  return evaluateTokens(tokens, n);
+}
+
+function evaluateTokens(tokens: string[], n: number): number | undefined {
+  let position = 0;
+  const fail = (): never => {
+    throw new SyntaxError("Invalid plural expression");
+  };
+  const expect = (token: string) => {
+    if (tokens[position++] !== token) {
+      fail();
+    }
+  };
+
+  const parseTernary = (): number => {
+    const condition = parseBinary(0);
+    if (tokens[position] !== "?") {
+      return condition;
+    }
+    position++;
+    const whenTrue = parseTernary();
+    expect(":");
+    const whenFalse = parseTernary();
+    return condition ? whenTrue : whenFalse;
+  };
+
+  const parseBinary = (level: number): number => {
+    if (level === BINARY_OPERATORS.length) {
+      return parseUnary();
+    }
+    let left = parseBinary(level + 1);
+    while (BINARY_OPERATORS[level].includes(tokens[position])) {
+      const operator = tokens[position++];
+      const right = parseBinary(level + 1);
+      left = applyOperator(operator, left, right) ?? fail();
+    }
+    return left;
+  };
+
+  const parseUnary = (): number => {
+    const token = tokens[position++];
+    if (token === "!") {
+      return parseUnary() ? 0 : 1;
+    } else if (token === "-") {
+      return -parseUnary();
+    } else if (token === "(") {
+      const value = parseTernary();
+      expect(")");
+      return value;
+    } else if (token === "n") {
+      return n;
+    } else if (token !== undefined && /^\d+$/.test(token)) {
+      return Number(token);
+    }
+    return fail();
+  };
+
+  try {
+    const value = parseTernary();
+    return position === tokens.length ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// C semantics: comparisons give 0 or 1, division truncates
+function applyOperator(
+  operator: string,
+  left: number,
+  right: number,
+): number | undefined {
+  switch (operator) {
+    case "||":
+      return left || right ? 1 : 0;
+    case "&&":
+      return left && right ? 1 : 0;
+    case "==":
+      return left === right ? 1 : 0;
+    case "!=":
+      return left !== right ? 1 : 0;
+    case "<":
+      return left < right ? 1 : 0;
+    case ">":
+      return left > right ? 1 : 0;
+    case "<=":
+      return left <= right ? 1 : 0;
+    case ">=":
+      return left >= right ? 1 : 0;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return right === 0 ? undefined : Math.trunc(left / right);
+    case "%":
+      return right === 0 ? undefined : left % right;
+  }
+  return undefined;
+}
+
+// Evaluate the "plural=" expression of a Plural-Forms header for n = 1
+// Returns the form used for a single item, or undefined when unknown
+function singularForm(pluralForms: string): number | undefined {
+  const expression = /plural\s*=\s*([^;]+)/.exec(pluralForms)?.[1];
+  return expression === undefined ? undefined : evaluatePlural(expression, 1);
+}
+
+/**
+ * Parse a gettext PO or POT file
+ * Plural entries get the msgid translation in the form the Plural-Forms
+ * expression uses for a single item (msgstr[0] when there is no expression),
+ * and the msgid_plural translation in every other form. Languages with a single
+ * form only get the msgid_plural translation. The number of forms comes from
+ * the Plural-Forms header, or from the entry itself.
+ * @param text - The PO or POT file
+ * @param options - Whether to overwrite translations and flag new ones fuzzy
+ * @returns The localizable content and a function rendering translations
+ */
+export function parsePo(
+  text: string,
+  options: PoLocalizationOptions = {},
+): PoDocument {
+  const lineBreak = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text.split(/\r?\n/);
+  const entries: PoEntry[] = [];
+
+  let entry: PoEntry | null = null;
+  let field: { name: string; form: number } | null = null;
+
+  const startEntry = (): PoEntry => {
+    if (entry && entry.msgstrStart === -1) {
+      return entry;
+    }
+    entry = {
+      index: entries.length,
+      translatorComments: [],
+      extractedComments: [],
+      flags: [],
+      flagsLine: -1,
+      previousLines: [],
+      keywordLine: -1,
+      msgid: "",
+      msgstr: [],
+      msgstrStart: -1,
+      msgstrEnd: -1,
+    };
+    entries.push(entry);
+    field = null;
+    return entry;
+  };
+
+  const append = (current: PoEntry, value: string) => {
+    if (!field) {
+      return;
+    }
+    if (field.name === "msgctxt") {
+      current.msgctxt = (current.msgctxt ?? "") + value;
+    } else if (field.name === "msgid") {
+      current.msgid += value;
+    } else if (field.name === "msgid_plural") {
+      current.msgidPlural = (current.msgidPlural ?? "") + value;
+    } else {
+      current.msgstr[field.form] = (current.msgstr[field.form] ?? "") + value;
+    }
+  };
+
+  lines.forEach((raw, lineIndex) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#~")) {
+      field = null;
+      if (entry && entry.msgstrStart !== -1) {
+        entry = null;
+      }
+      return;
+    }
+
+    if (line.startsWith("#")) {
+      const current = startEntry();
+      if (line.startsWith("#,")) {
+        current.flags = line.slice(2).split(",").map((flag) => flag.trim())
+          .filter(Boolean);
+        current.flagsLine = lineIndex;
+      } else if (line.startsWith("#.")) {
+        current.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith("#|")) {
+        current.previousLines.push(lineIndex);
+      } else if (!line.startsWith("#:")) {
+        const comment = line.slice(1).trim();
+        if (comment) {
+          current.translatorComments.push(comment);
+        }
+      }
+      return;
+    }
+
+    const keyword = KEYWORD.exec(line);
+    if (keyword) {
+      const isMsgstr = keyword[1].startsWith("msgstr");
+      const current = isMsgstr && entry ? entry : startEntry();
+      if (current.keywordLine === -1) {
+        current.keywordLine = lineIndex;
+      }
+      if (isMsgstr) {
+        if (current.msgstrStart === -1) {
+          current.msgstrStart = lineIndex;
+        }
+        current.msgstrEnd = lineIndex + 1;
+      }
+      field = {
+        name: isMsgstr ? "msgstr" : keyword[1],
+        form: Number(keyword[2] ?? 0),
+      };
+      append(current, unescapePo(keyword[3]));
+      return;
+    }
+
+    const continuation = CONTINUATION.exec(line);
+    if (continuation && entry) {
+      append(entry, unescapePo(continuation[1]));
+      if (field?.name === "msgstr") {
+        entry.msgstrEnd = lineIndex + 1;
+      }
+    }
+  });
+
+  const completeEntries = entries.filter((e) => e.msgstrStart !== -1);
+  const header = completeEntries.find((e) => e.msgid === "" && !e.msgctxt);
+  const pluralForms = Number(
+    /nplurals\s*=\s*(\d+)/.exec(header?.msgstr[0] ?? "")?.[1],
+  );
+  const singularIndex = pluralForms === 1
+    ? -1
+    : singularForm(header?.msgstr[0] ?? "") ?? 0;
+
+  const content: Record<string, string> = {};
+  const hints: Record<string, string[]> = {};
+  const pending: PoEntry[] = [];
+
+  for (const current of completeEntries) {
+    if (current === header || current.msgid === "") {
+      continue;
+    }
+    const fuzzy = current.flags.includes("fuzzy");
+    const forms = current.msgidPlural === undefined
+      ? 1
+      : pluralForms || Math.max(current.msgstr.length, 2);
+    const translated = Array.from(
+      { length: forms },
+      (_, form) => current.msgstr[form] ?? "",
+    ).every(Boolean);
+    if (translated && !fuzzy && !options.overwrite) {
+      continue;
+    }
+
+    const key = `entry/${current.index}`;
+    const entryHints = [
+      ...(current.msgctxt ? [`Context: ${current.msgctxt}`] : []),
+      ...current.translatorComments,
+      ...current.extractedComments,
+    ];
+    content[key] = current.msgid;
+    if (current.msgidPlural !== undefined) {
+      content[`${key}/plural`] = current.msgidPlural;
+    }
+    if (entryHints.length > 0) {
+      hints[key] = entryHints;
+      if (current.msgidPlural !== undefined) {
+        hints[`${key}/plural`] = entryHints;
+      }
+    }
+    pending.push(current);
+  }
+
+  return {
+    content,
+    hints,
+    render(localized, locale) {
+      const replacements = new Map<number, string[]>();
+      const removed = new Set<number>();
+
+      for (const current of pending) {
+        const key = `entry/${current.index}`;
+        const one = localized[key];
+        if (one === undefined) {
+          continue;
+        }
+        const other = localized[`${key}/plural`] ?? one;
+        const keep = !options.overwrite &&
+          !current.flags.includes("fuzzy");
+
+        let msgstrLines: string[];
+        if (current.msgidPlural === undefined) {
+          msgstrLines = formatKeyword("msgstr", one);
+        } else {
+          const forms = pluralForms || Math.max(current.msgstr.length, 2);
+          msgstrLines = Array.from({ length: forms }, (_, form) => {
+            const existing = keep ? current.msgstr[form] : undefined;
+            const value = existing || (form === singularIndex ? one : other);
+            return formatKeyword(`msgstr[${form}]`, value);
+          }).flat();
+        }
+        replacements.set(current.msgstrStart, msgstrLines);
+        for (let i = current.msgstrStart + 1; i < current.msgstrEnd; i++) {
+          removed.add(i);
+        }
+
+        const flags = current.flags.filter((flag) => flag !== "fuzzy");
+        if (options.markFuzzy) {
+          flags.unshift("fuzzy");
+        } else {
+          current.previousLines.forEach((line) => removed.add(line));
+        }
+        const flagsLine = flags.length > 0 ? [`#, ${flags.join(", ")}`] : [];
+        if (current.flagsLine !== -1) {
+          replacements.set(current.flagsLine, flagsLine);
+        } else if (flagsLine.length > 0) {
+          const before = current.previousLines[0] ?? current.keywordLine;
+          replacements.set(before, [...flagsLine, lines[before]]);
+        }
+      }
+
+      if (header) {
+        const language = /^(Language:).*$/m;
+        if (language.test(header.msgstr[0] ?? "")) {
+          replacements.set(
+            header.msgstrStart,
+            formatKeyword(
+              "msgstr",
+              header.msgstr[0].replace(language, `$1 ${locale}`),
+            ),
+          );
+          for (let i = header.msgstrStart + 1; i < header.msgstrEnd; i++) {
+            removed.add(i);
+          }
+        }
+      }
+
+      return lines.flatMap((line, index) =>
+        removed.has(index) ? [] : replacements.get(index) ?? [line]
+      ).join(lineBreak);
+    },
+  };
+}
@@ -0,0 +1,175 @@
+import { findClosingBrace } from "./placeholders.ts";
+
+const ACCENTED_CHARACTERS: Record<string, string> = {
+  a: "á",
+  b: "ƀ",
+  c: "ç",
+  d: "ð",
+  e: "é",
+  f: "ƒ",
+  g: "ĝ",
+  h: "ĥ",
+  i: "í",
+  j: "ĵ",
+  k: "ķ",
+  l: "ļ",
+  m: "ɱ",
+  n: "ñ",
+  o: "ö",
+  p: "þ",
+  q: "ǫ",
+  r: "ŕ",
+  s: "š",
+  t: "ţ",
+  u: "ú",
+  v: "ṽ",
+  w: "ŵ",
+  x: "ẋ",
+  y: "ý",
+  z: "ž",
+  A: "Á",
+  B: "Ɓ",
+  C: "Ç",
+  D: "Ð",
+  E: "É",
+  F: "Ƒ",
+  G: "Ĝ",
+  H: "Ĥ",
+  I: "Í",
+  J: "Ĵ",
+  K: "Ķ",
+  L: "Ļ",
+  M: "Ṁ",
+  N: "Ñ",
+  O: "Ö",
+  P: "Þ",
+  Q: "Ǫ",
+  R: "Ŕ",
+  S: "Š",
+  T: "Ţ",
+  U: "Ú",
+  V: "Ṽ",
+  W: "Ŵ",
+  X: "Ẋ",
+  Y: "Ý",
+  Z: "Ž",
+};
+
+export interface PseudoLocalizeOptions {
+  /** Percentage by which every string is lengthened (default: 30) */
+  expansion?: number;
+  /** Characters wrapped around every string (default: ["[", "]"]) */
+  brackets?: [string, string];
+  /** Whether letters are replaced by accented look-alikes (default: true) */
+  accents?: boolean;
+}
+
+// HTML tags and entities, printf-style placeholders, the ⟦n⟧ tokens produced
+// by protectPlaceholders, and the "{" starting {{mustache}} and {icu} arguments
+const PROTECTED_PATTERN =
+  /⟦\d+⟧|<[^>]+>|&(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);|%(?:\d+\$)?[sdifu@%]|\{/g;
+const BRANCHING_HEADER =
+  /^\{\s*[\w.$-]+\s*,\s*(?:plural|selectordinal|select)\s*,/;
+const BRANCH_SELECTOR = /^(\s*(?:offset:\d+\s+)?[^\s{}]+\s*)\{/;
+
+// Transform the text of a message, keeping placeholders intact; only the
+// branch messages of ICU plural/select arguments are transformed
+function transformMessage(
+  text: string,
+  transform: (segment: string) => string,
+): string {
+  let result = "";
+  let lastIndex = 0;
+  const pattern = new RegExp(PROTECTED_PATTERN);
+
+  for (let match; (match = pattern.exec(text));) {
+    let end = match.index + match[0].length;
+    let kept = match[0];
+    if (match[0] === "{") {
+      const close = findClosingBrace(text, match.index);
+      if (close === -1) {
+        continue;
+      }
+      end = close + 1;
+      kept = transformArgument(text.slice(match.index, end), transform);
+    }
+    result += transform(text.slice(lastIndex, match.index)) + kept;
+    lastIndex = end;
+    pattern.lastIndex = end;
+  }
+  return result + transform(text.slice(lastIndex));
+}
+
+// Keep an argument's name, type and selectors, transforming branch messages
+function transformArgument(
+  raw: string,
+  transform: (segment: string) => string,
+): string {
+  const header = BRANCHING_HEADER.exec(raw)?.[0];
+  if (!header) {
+    return raw;
+  }
+  const body = raw.slice(header.length, -1);
+  let result = header;
+  let position = 0;
+  while (position < body.length) {
+    const selector = BRANCH_SELECTOR.exec(body.slice(position));
+    const open = position + (selector?.[1].length ?? 0);
+    const close = selector ? findClosingBrace(body, open) : -1;
+    if (close === -1) {
+      return raw;
+    }
+    result += selector![0] +
+      transformMessage(body.slice(open + 1, close), transform) + "}";
+    position = close + 1;
+  }
+  return result + "}";
+}
+
+/**
+ * Pseudo-localize a string: accent its letters, lengthen it and bracket it
+ * Placeholders and HTML markup are kept intact, and so are the argument
+ * names, types and selectors of ICU messages.
+ * @param text - The text to pseudo-localize
+ * @param options - Optional expansion, brackets and accent settings
+ * @returns The pseudo-localized text, e.g. "[Ĥéļļö~~]" for "Hello"
+ */
+export function pseudoLocalize(
+  text: string,
+  options: PseudoLocalizeOptions = {},
+): string {
+  const expansion = options.expansion ?? 30;
+  const [open, close] = options.brackets ?? ["[", "]"];
+  const accents = options.accents ?? true;
+
+  let visibleLength = 0;
+  const transform = (segment: string) => {
+    visibleLength += Array.from(segment).length;
+    return accents
+      ? Array.from(segment)
+        .map((char) => ACCENTED_CHARACTERS[char] ?? char)
+        .join("")
+      : segment;
+  };
+  const result = transformMessage(text, transform);
+
+  const padding = "~".repeat(Math.ceil((visibleLength * expansion) / 100));
+  return `${open}${result}${padding}${close}`;
+}
+
+/**
+ * Pseudo-localize every value of a flat record
+ * @param data - Strings to pseudo-localize
+ * @param options - Pseudo-localization settings
+ * @returns A record with the same keys and pseudo-localized values
+ */
+export function pseudoLocalizeRecord(
+  data: Record<string, string>,
+  options: PseudoLocalizeOptions = {},
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    result[key] = pseudoLocalize(value, options);
+  }
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Retry policy for requests sent to the Lingo.dev API.
+ * Retries are opt-in: without a policy every request is attempted once.
+ */
+export interface RetryParams {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled on every attempt (default: 500) */
+  baseDelay?: number;
+  /**
+   * Upper bound for the backoff delay in milliseconds (default: 30000)
+   * Requests asked to wait longer through Retry-After are not retried.
+   */
+  maxDelay?: number;
+  /** Fraction of the delay (0-1) that is randomized to spread out retries (default: 0.2) */
+  jitter?: number;
+  /** HTTP status codes that are worth retrying (default: 429 and 5xx) */
+  retryableStatuses?: number[];
+}
+
+const DEFAULT_RETRYABLE_STATUSES = [
+  429,
+  ...Array.from({ length: 100 }, (_, i) => 500 + i),
+];
+
+/**
+ * Fill in the defaults of a retry policy
+ * @param params - User supplied retry policy, or undefined to disable retries
+ * @returns A complete retry policy
+ */
+export function resolveRetryParams(
+  params?: RetryParams,
+): Required<RetryParams> {
+  if (!params) {
+    return {
+      maxAttempts: 1,
+      baseDelay: 0,
+      maxDelay: 0,
+      jitter: 0,
+      retryableStatuses: [],
+    };
+  }
+
+  const resolved = {
+    maxAttempts: params.maxAttempts ?? 3,
+    baseDelay: params.baseDelay ?? 500,
+    maxDelay: params.maxDelay ?? 30000,
+    jitter: params.jitter ?? 0.2,
+    retryableStatuses: params.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES,
+  };
+
+  if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+    throw new Error("retry.maxAttempts must be a positive integer");
+  }
+  if (resolved.baseDelay < 0 || resolved.maxDelay < 0) {
+    throw new Error("retry delays must not be negative");
+  }
+  if (resolved.jitter < 0 || resolved.jitter > 1) {
+    throw new Error("retry.jitter must be between 0 and 1");
+  }
+
+  return resolved;
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date)
+ * @param value - The raw header value
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Compute how long to wait before the next attempt
+ * A Retry-After delay longer than `maxDelay` is not waited for: the request
+ * fails instead, with the delay in the error's `retryAfter`.
+ * @param policy - The resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @param retryAfter - Optional Retry-After header value sent by the server
+ * @returns Delay in milliseconds, or null when the request must not be retried
+ */
+export function computeRetryDelay(
+  policy: Required<RetryParams>,
+  attempt: number,
+  retryAfter: string | null = null,
+): number | null {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) {
+    return serverDelay <= policy.maxDelay ? serverDelay : null;
+  }
+
+  const exponential = Math.min(
+    policy.baseDelay * 2 ** (attempt - 1),
+    policy.maxDelay,
+  );
+  return Math.round(exponential * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Wait for the given delay, rejecting as soon as the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional AbortSignal to cancel the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Check whether an error was caused by cancelling a request
+ * @param error - The error to inspect
+ * @returns True for AbortError exceptions
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,134 @@
+/**
+ * A chunk of a streamed localization
+ */
+export interface LocalizationStreamChunk {
+  /** Overall progress (0-100) once this chunk is done */
+  progress: number;
+  /** The source strings of the chunk */
+  sourceChunk: Record<string, string>;
+  /** The localized strings of the chunk */
+  processedChunk: Record<string, string>;
+}
+
+/**
+ * Turn a progress-callback based operation into an async iterator
+ * Breaking out of the iteration aborts the remaining work.
+ * @param run - Starts the operation, reporting chunks through `onChunk`
+ * @param signal - Optional AbortSignal to cancel the operation
+ * @returns Chunks in completion order
+ */
+export async function* iterateChunks(
+  run: (
+    onChunk: (chunk: LocalizationStreamChunk) => void,
+    signal: AbortSignal,
+  ) => Promise<unknown>,
+  signal?: AbortSignal,
+): AsyncGenerator<LocalizationStreamChunk> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const queue: LocalizationStreamChunk[] = [];
+  let wake: (() => void) | null = null;
+  let settled = false;
+  let failure: { error: unknown } | null = null;
+
+  run((chunk) => {
+    queue.push(chunk);
+    wake?.();
+  }, controller.signal).then(
+    () => {
+      settled = true;
+      wake?.();
+    },
+    (error) => {
+      settled = true;
+      failure = { error };
+      wake?.();
+    },
+  );
+
+  try {
+    while (true) {
+      const chunk = queue.shift();
+      if (chunk) {
+        yield chunk;
+      } else if (settled) {
+        if (failure) {
+          throw (failure as { error: unknown }).error;
+        }
+        return;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    if (!settled) {
+      controller.abort();
+    }
+  }
+}
+
+export interface LocalizationStreamOptions {
+  /** Output format: newline-delimited JSON or Server-Sent Events (default: "ndjson") */
+  format?: "ndjson" | "sse";
+}
+
+/**
+ * Encode a localization stream for an HTTP response
+ * Every chunk becomes one NDJSON line or one SSE "chunk" event. SSE streams end
+ * with a "done" event. Failures are sent as a final `{ "error": ... }` record
+ * (an "error" event for SSE) before the stream closes.
+ * @param chunks - The chunks to encode, e.g. from localizeObjectStream()
+ * @param options - Output format
+ * @returns A byte stream suitable as a Response body
+ */
+export function toReadableStream(
+  chunks: AsyncIterable<LocalizationStreamChunk>,
+  options: LocalizationStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const format = options.format ?? "ndjson";
+  const encoder = new TextEncoder();
+  const encode = (event: string, data: unknown) =>
+    encoder.encode(
+      format === "sse"
+        ? `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        : `${JSON.stringify(data)}\n`,
+    );
+
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          if (format === "sse") {
+            controller.enqueue(encode("done", { progress: 100 }));
+          }
+          controller.close();
+          return;
+        }
+        controller.enqueue(encode("chunk", value));
+      } catch (error) {
+        controller.enqueue(
+          encode("error", {
+            error: {
+              name: error instanceof Error ? error.name : "Error",
+              message: error instanceof Error ? error.message : String(error),
+            },
+          }),
+        );
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
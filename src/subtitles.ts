@@ -0,0 +1,203 @@
+import { ValidationError } from "./errors.ts";
+import { decodeEntities, type InlineSegment, restoreSegment } from "./html.ts";
+
+/**
+ * Options controlling how localizeSubtitles reads a subtitle file
+ */
+export interface SubtitleLocalizationOptions {
+  /** Subtitle format (default: "vtt" for files starting with WEBVTT, else "srt") */
+  format?: "srt" | "vtt";
+  /** Number of cues before and after each cue passed as context (default: 1) */
+  contextCues?: number;
+}
+
+/**
+ * A parsed subtitle file with its cue texts
+ */
+export interface SubtitleDocument {
+  format: "srt" | "vtt";
+  /**
+   * Cues to translate, as chat messages named after the WebVTT voice, with
+   * styling tags as numbered tags, e.g. "I <0>really</0> mean it"
+   */
+  cues: Array<{ name: string; text: string }>;
+  /** Neighbouring cue texts of every cue, in the order of `cues` */
+  context: string[][];
+  /**
+   * Rebuild the file with translated cue texts, in the order of `cues`
+   * Timings, identifiers, settings and NOTE/STYLE/REGION blocks are kept.
+   */
+  render(texts: string[]): string;
+}
+
+/** A styling tag, or a pair of them, in a cue */
+interface CueTag {
+  open: string;
+  close: string | null;
+}
+
+interface Cue {
+  /** Line range of the cue text */
+  textStart: number;
+  textEnd: number;
+  name: string;
+  segment: InlineSegment<CueTag>;
+}
+
+// Tags (<i>, </b>, <c.yellow>, <v Roger>, <00:01.000>) and ASS overrides ({\an8})
+const CUE_TAG = /<(\/?)([a-z]+|\d[\d:.]*)(?:[.\s][^>]*)?>|\{\\[^}]*\}/gi;
+const VTT_BLOCKS = ["WEBVTT", "NOTE", "STYLE", "REGION"];
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(
+    />/g,
+    "&gt;",
+  );
+}
+
+// Turn cue text into a segment, pairing tags; unmatched tags become opaque
+function createCueSegment(
+  text: string,
+  format: "srt" | "vtt",
+): InlineSegment<CueTag> {
+  const decode = (raw: string) => format === "vtt" ? decodeEntities(raw) : raw;
+  const pieces: Array<string | { tag: CueTag; closes?: number }> = [];
+  const open: Array<{ name: string; piece: number }> = [];
+  let position = 0;
+
+  for (const match of text.matchAll(CUE_TAG)) {
+    pieces.push(decode(text.slice(position, match.index)));
+    position = match.index! + match[0].length;
+    const name = match[2]?.toLowerCase();
+    if (match[1]) {
+      const opener = open.findLastIndex((tag) => tag.name === name);
+      if (opener !== -1) {
+        const [{ piece }] = open.splice(opener);
+        const tag = pieces[piece] as { tag: CueTag };
+        tag.tag.close = match[0];
+        pieces.push({ tag: tag.tag, closes: piece });
+        continue;
+      }
+    } else if (name && !/^\d/.test(name)) {
+      open.push({ name, piece: pieces.length });
+    }
+    pieces.push({ tag: { open: match[0], close: null } });
+  }
+  pieces.push(decode(text.slice(position)));
+
+  // Tags left unmatched are kept whole
+  const elements: InlineSegment<CueTag>["elements"] = [];
+  const indexes = new Map<number, number>();
+  const serialized = pieces.map((piece, i) => {
+    if (typeof piece === "string") {
+      return piece;
+    }
+    if (piece.closes !== undefined) {
+      return `</${indexes.get(piece.closes)}>`;
+    }
+    const index = elements.length;
+    indexes.set(i, index);
+    elements.push({ node: piece.tag, opaque: piece.tag.close === null });
+    return piece.tag.close === null ? `<${index}/>` : `<${index}>`;
+  });
+  return { text: serialized.join(""), elements };
+}
+
+/**
+ * Parse an SRT or WebVTT subtitle file
+ * @param text - The subtitle file
+ * @param options - Format of the file and number of context cues
+ * @returns The cues to translate and a function rendering translations
+ */
+export function parseSubtitles(
+  text: string,
+  options: SubtitleLocalizationOptions = {},
+): SubtitleDocument {
+  const body = text.replace(/^\uFEFF/, "");
+  const format = options.format ??
+    (/^WEBVTT(?:[ \t]|\r?\n|$)/.test(body) ? "vtt" : "srt");
+  if (format === "vtt" && !/^WEBVTT(?:[ \t]|\r?\n|$)/.test(body)) {
+    throw new ValidationError("Invalid WebVTT file: missing WEBVTT header");
+  }
+
+  const lineBreak = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text.split(/\r?\n/);
+  const cues: Cue[] = [];
+
+  let blockStart = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    if (i < lines.length && lines[i].trim() !== "") {
+      continue;
+    }
+    const block = lines.slice(blockStart, i);
+    const timing = block.findIndex((line) => line.includes("-->"));
+    const isCue = timing !== -1 && timing <= 1 &&
+      !(format === "vtt" &&
+        VTT_BLOCKS.some((keyword) =>
+          block[0].replace(/^\uFEFF/, "").startsWith(keyword)
+        ));
+    if (isCue && timing + 1 < block.length) {
+      const cueText = block.slice(timing + 1).join("\n");
+      const segment = createCueSegment(cueText, format);
+      if (/[\p{L}\p{N}]/u.test(segment.text.replace(/<\/?\d+\/?>/g, ""))) {
+        cues.push({
+          textStart: blockStart + timing + 1,
+          textEnd: i,
+          name: /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(cueText)?.[1].trim() ?? "",
+          segment,
+        });
+      }
+    }
+    blockStart = i + 1;
+  }
+
+  const plainTexts = cues.map((cue) =>
+    cue.segment.text.replace(/<\/?\d+\/?>/g, "").replace(/\s+/g, " ").trim()
+  );
+  const contextCues = options.contextCues ?? 1;
+  const context = cues.map((_, index) => [
+    ...plainTexts.slice(Math.max(0, index - contextCues), index)
+      .map((cueText) => `Previous cue: ${cueText}`),
+    ...plainTexts.slice(index + 1, index + 1 + contextCues)
+      .map((cueText) => `Next cue: ${cueText}`),
+  ]);
+
+  return {
+    format,
+    cues: cues.map((cue) => ({ name: cue.name, text: cue.segment.text })),
+    context,
+    render(texts) {
+      const replacements = new Map<number, Cue & { text: string }>();
+      cues.forEach((cue, index) => {
+        if (texts[index] !== undefined) {
+          replacements.set(cue.textStart, { ...cue, text: texts[index] });
+        }
+      });
+
+      const output: string[] = [];
+      for (let i = 0; i < lines.length; i++) {
+        const cue = replacements.get(i);
+        if (!cue) {
+          output.push(lines[i]);
+          continue;
+        }
+        const rendered = restoreSegment(cue.segment, cue.text, `line ${i + 1}`)
+          .map((part) => {
+            if (part.type === "text") {
+              return format === "vtt" ? escapeVtt(part.text) : part.text;
+            }
+            const tag = cue.segment.elements[part.index].node;
+            return part.type === "close" ? tag.close! : tag.open;
+          }).join("");
+        // A blank line would end the cue early
+        output.push(
+          ...rendered.split(/\r?\n/).map((line) => line.trim()).filter(
+            Boolean,
+          ),
+        );
+        i = cue.textEnd - 1;
+      }
+      return output.join(lineBreak);
+    },
+  };
+}
@@ -1,132 +1,135 @@
 // Locale type definition (copied from @lingo.dev/_spec for Deno compatibility)
-export type LocaleCode =
-  | "ur"
-  | "ur-PK"
-  | "vi"
-  | "vi-VN"
-  | "tr"
-  | "tr-TR"
-  | "ta"
-  | "ta-IN"
-  | "ta-SG"
-  | "sr"
-  | "sr-RS"
-  | "sr-Latn-RS"
-  | "sr-Cyrl-RS"
-  | "hu"
-  | "hu-HU"
-  | "he"
-  | "he-IL"
-  | "et"
-  | "et-EE"
-  | "el"
-  | "el-GR"
-  | "da"
-  | "da-DK"
-  | "cs"
-  | "cs-CZ"
-  | "ca"
-  | "ca-ES"
-  | "bg"
-  | "bg-BG"
-  | "bn"
-  | "bn-BD"
-  | "bn-IN"
-  | "ar"
-  | "ar-AE"
-  | "ar-BH"
-  | "ar-DZ"
-  | "ar-EG"
-  | "ar-IQ"
-  | "ar-JO"
-  | "ar-KW"
-  | "ar-LB"
-  | "ar-LY"
-  | "ar-MA"
-  | "ar-OM"
-  | "ar-QA"
-  | "ar-SA"
-  | "ar-SY"
-  | "ar-TN"
-  | "ar-YE"
-  | "af"
-  | "af-ZA"
-  | "zh"
-  | "zh-CN"
-  | "zh-HK"
-  | "zh-TW"
-  | "de"
-  | "de-DE"
-  | "de-AT"
-  | "de-CH"
-  | "en"
-  | "en-US"
-  | "en-GB"
-  | "en-AU"
-  | "en-CA"
-  | "en-IE"
-  | "en-IN"
-  | "en-NZ"
-  | "en-SG"
-  | "en-ZA"
-  | "es"
-  | "es-ES"
-  | "es-MX"
-  | "es-AR"
-  | "es-CL"
-  | "es-CO"
-  | "es-PE"
-  | "es-UY"
-  | "es-VE"
-  | "fr"
-  | "fr-FR"
-  | "fr-CA"
-  | "fr-BE"
-  | "fr-CH"
-  | "it"
-  | "it-IT"
-  | "it-CH"
-  | "ja"
-  | "ja-JP"
-  | "ko"
-  | "ko-KR"
-  | "nl"
-  | "nl-NL"
-  | "nl-BE"
-  | "pl"
-  | "pl-PL"
-  | "pt"
-  | "pt-PT"
-  | "pt-BR"
-  | "ru"
-  | "ru-RU"
-  | "sv"
-  | "sv-SE"
-  | "th"
-  | "th-TH"
-  | "uk"
-  | "uk-UA"
-  | "fa"
-  | "fa-IR"
-  | "fi"
-  | "fi-FI"
-  | "hi"
-  | "hi-IN"
-  | "hr"
-  | "hr-HR"
-  | "id"
-  | "id-ID"
-  | "lt"
-  | "lt-LT"
-  | "lv"
-  | "lv-LV"
-  | "ms"
-  | "ms-MY"
-  | "no"
-  | "no-NO"
-  | "ro"
-  | "ro-RO"
-  | "sk"
-  | "sk-SK"
-  | "sl"
-  | "sl-SI";
+export const LOCALE_CODES = [
+  "ur",
+  "ur-PK",
+  "vi",
+  "vi-VN",
+  "tr",
+  "tr-TR",
+  "ta",
+  "ta-IN",
+  "ta-SG",
+  "sr",
+  "sr-RS",
+  "sr-Latn-RS",
+  "sr-Cyrl-RS",
+  "hu",
+  "hu-HU",
+  "he",
+  "he-IL",
+  "et",
+  "et-EE",
+  "el",
+  "el-GR",
+  "da",
+  "da-DK",
+  "cs",
+  "cs-CZ",
+  "ca",
+  "ca-ES",
+  "bg",
+  "bg-BG",
+  "bn",
+  "bn-BD",
+  "bn-IN",
+  "ar",
+  "ar-AE",
+  "ar-BH",
+  "ar-DZ",
+  "ar-EG",
+  "ar-IQ",
+  "ar-JO",
+  "ar-KW",
+  "ar-LB",
+  "ar-LY",
+  "ar-MA",
+  "ar-OM",
+  "ar-QA",
+  "ar-SA",
+  "ar-SY",
+  "ar-TN",
+  "ar-YE",
+  "af",
+  "af-ZA",
+  "zh",
+  "zh-CN",
+  "zh-HK",
+  "zh-TW",
+  "de",
+  "de-DE",
+  "de-AT",
+  "de-CH",
+  "en",
+  "en-US",
+  "en-GB",
+  "en-AU",
+  "en-CA",
+  "en-IE",
+  "en-IN",
+  "en-NZ",
+  "en-SG",
+  "en-ZA",
+  "es",
+  "es-ES",
+  "es-MX",
+  "es-AR",
+  "es-CL",
+  "es-CO",
+  "es-PE",
+  "es-UY",
+  "es-VE",
+  "fr",
+  "fr-FR",
+  "fr-CA",
+  "fr-BE",
+  "fr-CH",
+  "it",
+  "it-IT",
+  "it-CH",
+  "ja",
+  "ja-JP",
+  "ko",
+  "ko-KR",
+  "nl",
+  "nl-NL",
+  "nl-BE",
+  "pl",
+  "pl-PL",
+  "pt",
+  "pt-PT",
+  "pt-BR",
+  "ru",
+  "ru-RU",
+  "sv",
+  "sv-SE",
+  "th",
+  "th-TH",
+  "uk",
+  "uk-UA",
+  "fa",
+  "fa-IR",
+  "fi",
+  "fi-FI",
+  "hi",
+  "hi-IN",
+  "hr",
+  "hr-HR",
+  "id",
+  "id-ID",
+  "lt",
+  "lt-LT",
+  "lv",
+  "lv-LV",
+  "ms",
+  "ms-MY",
+  "no",
+  "no-NO",
+  "ro",
+  "ro-RO",
+  "sk",
+  "sk-SK",
+  "sl",
+  "sl-SI",
+] as const;
+
+export type LocaleCode = typeof LOCALE_CODES[number];
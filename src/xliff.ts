@@ -0,0 +1,488 @@
+import { ValidationError } from "./errors.ts";
+import { decodeEntities, type InlineSegment, restoreSegment } from "./html.ts";
+
+/**
+ * Options controlling what localizeXliff translates
+ */
+export interface XliffLocalizationOptions {
+  /** Retranslate units that already have a target (default: false) */
+  overwrite?: boolean;
+  /** State given to new targets (default: "translated") */
+  targetState?: string;
+}
+
+/**
+ * A parsed XLIFF 1.2 or 2.0 document with its localizable content
+ */
+export interface XliffDocument {
+  /** XLIFF version of the document */
+  version: "1.2" | "2.0";
+  /**
+   * Strings to translate with inline elements as numbered tags, keyed
+   * "<file>/<unit id>" (1.2) or "<file>/<unit id>/<segment>" (2.0)
+   */
+  content: Record<string, string>;
+  /** Notes of the units, keyed like `content` */
+  hints: Record<string, string[]>;
+  /**
+   * Rebuild the document with translated targets, their state and the target
+   * language set. The rest of the source is kept verbatim.
+   */
+  render(localized: Record<string, string>, locale: string): string;
+}
+
+interface XmlAttribute {
+  name: string;
+  value: string;
+  valueStart: number;
+  valueEnd: number;
+}
+
+interface XmlElement {
+  type: "element";
+  /** Name without namespace prefix */
+  name: string;
+  /** Name as written, e.g. "xlf:source" */
+  qualifiedName: string;
+  attributes: XmlAttribute[];
+  parent: XmlElement | null;
+  children: XmlNode[];
+  start: number;
+  /** End of the last attribute in the start tag */
+  attributesEnd: number;
+  /** End of the start tag */
+  tagEnd: number;
+  /** Start of the end tag, or tagEnd for self-closing elements */
+  closeStart: number;
+  end: number;
+  selfClosing: boolean;
+}
+
+interface XmlText {
+  type: "text";
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Comments and processing instructions */
+interface XmlOther {
+  type: "other";
+  start: number;
+  end: number;
+}
+
+type XmlNode = XmlElement | XmlText | XmlOther;
+
+interface XmlEdit {
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface XliffSegment {
+  key: string;
+  source: XmlElement;
+  target: XmlElement | null;
+  /** Element carrying the state attribute: target (1.2) or segment (2.0) */
+  stateElement: XmlElement | null;
+  /** Leading and trailing whitespace of the source, kept around the target */
+  leading: string;
+  trailing: string;
+  inline: InlineSegment<XmlNode>;
+}
+
+// Inline elements wrapping translatable content; all others are opaque
+const PAIRED_INLINE = ["g", "pc", "mrk"];
+// Target states meaning the target still has to be translated
+const UNTRANSLATED_STATES = ["new", "needs-translation", "initial"];
+
+const MARKUP =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<(\/?)([\w.-]+(?::[\w.-]+)?)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function invalid(message: string): ValidationError {
+  return new ValidationError(`Invalid XLIFF document: ${message}`);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(
+    />/g,
+    "&gt;",
+  );
+}
+
+// Escapes both quotes, as the quote around an existing value is not tracked
+function escapeAttribute(text: string): string {
+  return escapeXml(text).replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+function parseXml(xml: string): XmlElement {
+  const document: XmlElement = {
+    type: "element",
+    name: "#document",
+    qualifiedName: "",
+    attributes: [],
+    parent: null,
+    children: [],
+    start: 0,
+    attributesEnd: 0,
+    tagEnd: 0,
+    closeStart: xml.length,
+    end: xml.length,
+    selfClosing: false,
+  };
+  let current = document;
+  let position = 0;
+
+  const addText = (end: number) => {
+    if (end > position) {
+      current.children.push({
+        type: "text",
+        text: decodeEntities(xml.slice(position, end)),
+        start: position,
+        end,
+      });
+    }
+  };
+
+  for (const match of xml.matchAll(MARKUP)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    addText(start);
+    position = end;
+
+    if (match[1] !== undefined) {
+      current.children.push({ type: "text", text: match[1], start, end });
+      continue;
+    }
+    if (!match[3]) {
+      current.children.push({ type: "other", start, end });
+      continue;
+    }
+
+    const qualifiedName = match[3];
+    if (match[2]) {
+      if (current.qualifiedName !== qualifiedName) {
+        throw invalid(`unexpected </${qualifiedName}> at offset ${start}`);
+      }
+      current.closeStart = start;
+      current.end = end;
+      current = current.parent!;
+      continue;
+    }
+
+    const attributesStart = start + 1 + qualifiedName.length;
+    const attributes: XmlAttribute[] = [];
+    for (const attribute of match[4].matchAll(ATTRIBUTE)) {
+      const valueStart = attributesStart + attribute.index! +
+        attribute[0].length - attribute[2].length + 1;
+      const raw = attribute[3] ?? attribute[4];
+      attributes.push({
+        name: attribute[1],
+        value: decodeEntities(raw),
+        valueStart,
+        valueEnd: valueStart + raw.length,
+      });
+    }
+    const element: XmlElement = {
+      type: "element",
+      name: qualifiedName.replace(/^[^:]*:/, ""),
+      qualifiedName,
+      attributes,
+      parent: current,
+      children: [],
+      start,
+      attributesEnd: attributesStart + match[4].length,
+      tagEnd: end,
+      closeStart: end,
+      end,
+      selfClosing: match[5] === "/",
+    };
+    current.children.push(element);
+    if (!element.selfClosing) {
+      current = element;
+    }
+  }
+  addText(xml.length);
+
+  if (current !== document) {
+    throw invalid(`<${current.qualifiedName}> is not closed`);
+  }
+  return document;
+}
+
+function getAttribute(element: XmlElement, name: string): string | null {
+  return element.attributes.find((attribute) => attribute.name === name)
+    ?.value ?? null;
+}
+
+function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child): child is XmlElement =>
+    child.type === "element" && child.name === name
+  );
+}
+
+// Elements named `name` below `element`, not descending into matches
+function findElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap((child) =>
+    child.type !== "element"
+      ? []
+      : child.name === name
+      ? [child]
+      : findElements(child, name)
+  );
+}
+
+function textContent(node: XmlNode): string {
+  if (node.type === "text") {
+    return node.text;
+  }
+  return node.type === "element" ? node.children.map(textContent).join("") : "";
+}
+
+// Whether the element or one of its ancestors has translate="no"
+function isExcluded(element: XmlElement | null): boolean {
+  for (let node = element; node; node = node.parent) {
+    if (getAttribute(node, "translate") === "no") {
+      return true;
+    }
+  }
+  return false;
+}
+
+function createSegment(source: XmlElement): InlineSegment<XmlNode> {
+  const elements: InlineSegment<XmlNode>["elements"] = [];
+  const serialize = (nodes: XmlNode[]): string =>
+    nodes.map((node) => {
+      if (node.type === "text") {
+        return node.text;
+      }
+      const index = elements.length;
+      if (
+        node.type === "other" || node.selfClosing ||
+        !PAIRED_INLINE.includes(node.name)
+      ) {
+        elements.push({ node, opaque: true });
+        return `<${index}/>`;
+      }
+      elements.push({ node, opaque: false });
+      return `<${index}>${serialize(node.children)}</${index}>`;
+    }).join("");
+  return { text: serialize(source.children), elements };
+}
+
+// Indentation of an element, taken from the blank text before it
+function indentationOf(element: XmlElement): string {
+  const siblings = element.parent!.children;
+  const previous = siblings[siblings.indexOf(element) - 1];
+  if (previous?.type !== "text" || previous.text.trim() !== "") {
+    return "";
+  }
+  return /\r?\n[ \t]*$/.exec(previous.text)?.[0] ?? "";
+}
+
+function setAttribute(
+  element: XmlElement,
+  name: string,
+  value: string,
+): XmlEdit {
+  const attribute = element.attributes.find((a) => a.name === name);
+  if (attribute) {
+    return {
+      start: attribute.valueStart,
+      end: attribute.valueEnd,
+      value: escapeAttribute(value),
+    };
+  }
+  return {
+    start: element.attributesEnd,
+    end: element.attributesEnd,
+    value: ` ${name}="${escapeAttribute(value)}"`,
+  };
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document
+ * Inline elements become numbered tags: <g>, <pc> and <mrk> wrap translated
+ * text ("<0>text</0>"), while <x/>, <ph>, <bpt>, <ept>, <sc/>, <ec/> and
+ * other codes are kept whole ("<0/>"). Units with translate="no" are skipped.
+ * @param xliff - The XLIFF document
+ * @param options - Whether to overwrite targets and the state of new ones
+ * @returns The localizable content and a function rendering translations
+ */
+export function parseXliff(
+  xliff: string,
+  options: XliffLocalizationOptions = {},
+): XliffDocument {
+  const root = parseXml(xliff).children.find((node): node is XmlElement =>
+    node.type === "element"
+  );
+  if (!root || root.name !== "xliff") {
+    throw invalid("missing <xliff> root element");
+  }
+  const versionAttribute = getAttribute(root, "version") ??
+    (/xliff:document:2/.test(getAttribute(root, "xmlns") ?? "") ? "2.0" : "");
+  const version = versionAttribute.startsWith("1.")
+    ? "1.2"
+    : versionAttribute.startsWith("2.")
+    ? "2.0"
+    : null;
+  if (!version) {
+    throw invalid(`unsupported version "${versionAttribute}"`);
+  }
+
+  const files = childElements(root, "file");
+  const segments: XliffSegment[] = [];
+  const hints: Record<string, string[]> = {};
+
+  const addSegment = (
+    key: string,
+    container: XmlElement,
+    stateElement: XmlElement | null,
+    notes: string[],
+  ) => {
+    const [source] = childElements(container, "source");
+    if (!source) {
+      return;
+    }
+    const [target] = childElements(container, "target");
+    const state = stateElement && getAttribute(stateElement, "state");
+    const translated = target && textContent(target).trim() !== "" &&
+      !UNTRANSLATED_STATES.includes(state ?? "");
+    if (translated && !options.overwrite) {
+      return;
+    }
+
+    const inline = createSegment(source);
+    if (!/[\p{L}\p{N}]/u.test(inline.text.replace(/<\/?\d+\/?>/g, ""))) {
+      return;
+    }
+    segments.push({
+      key,
+      source,
+      target: target ?? null,
+      stateElement,
+      leading: /^\s*/.exec(inline.text)![0],
+      trailing: /\s*$/.exec(inline.text)![0],
+      inline: { ...inline, text: inline.text.trim() },
+    });
+    if (notes.length > 0) {
+      hints[key] = notes;
+    }
+  };
+
+  files.forEach((file, fileIndex) => {
+    if (version === "1.2") {
+      for (const unit of findElements(file, "trans-unit")) {
+        if (isExcluded(unit)) {
+          continue;
+        }
+        const [target] = childElements(unit, "target");
+        addSegment(
+          `${fileIndex}/${getAttribute(unit, "id")}`,
+          unit,
+          target ?? null,
+          childElements(unit, "note").map((note) => textContent(note).trim()),
+        );
+      }
+      return;
+    }
+
+    for (const unit of findElements(file, "unit")) {
+      if (isExcluded(unit)) {
+        continue;
+      }
+      const notes = childElements(unit, "notes")
+        .flatMap((element) => childElements(element, "note"))
+        .map((note) => textContent(note).trim());
+      childElements(unit, "segment").forEach((segment, segmentIndex) => {
+        addSegment(
+          `${fileIndex}/${getAttribute(unit, "id")}/${segmentIndex}`,
+          segment,
+          segment,
+          notes,
+        );
+      });
+    }
+  });
+
+  return {
+    version,
+    content: Object.fromEntries(
+      segments.map((segment) => [segment.key, segment.inline.text]),
+    ),
+    hints,
+    render(localized, locale) {
+      const edits: XmlEdit[] = [];
+      const state = options.targetState ?? "translated";
+
+      for (const segment of segments) {
+        const translated = localized[segment.key];
+        if (translated === undefined) {
+          continue;
+        }
+        const { source, target, inline } = segment;
+        // Comes first: it may share its position with a <target/> edit
+        const stateElement = version === "1.2" ? target : segment.stateElement;
+        if (stateElement) {
+          edits.push(setAttribute(stateElement, "state", state));
+        }
+
+        const value = segment.leading +
+          restoreSegment(inline, translated, segment.key).map((part) => {
+            if (part.type === "text") {
+              return escapeXml(part.text);
+            }
+            const node = inline.elements[part.index].node as XmlElement;
+            return part.type === "open"
+              ? xliff.slice(node.start, node.tagEnd)
+              : part.type === "close"
+              ? xliff.slice(node.closeStart, node.end)
+              : xliff.slice(node.start, node.end);
+          }).join("") + segment.trailing;
+
+        if (!target) {
+          const name = source.qualifiedName.replace(/source$/, "target");
+          const attributes = version === "1.2" ? ` state="${state}"` : "";
+          edits.push({
+            start: source.end,
+            end: source.end,
+            value: `${
+              indentationOf(source)
+            }<${name}${attributes}>${value}</${name}>`,
+          });
+        } else if (target.selfClosing) {
+          edits.push({
+            start: target.tagEnd - 2,
+            end: target.tagEnd,
+            value: `>${value}</${target.qualifiedName}>`,
+          });
+        } else {
+          edits.push({
+            start: target.tagEnd,
+            end: target.closeStart,
+            value,
+          });
+        }
+      }
+
+      if (version === "1.2") {
+        files.forEach((file) =>
+          edits.push(setAttribute(file, "target-language", locale))
+        );
+      } else {
+        edits.push(setAttribute(root, "trgLang", locale));
+      }
+
+      edits.sort((a, b) => a.start - b.start);
+      let result = "";
+      let position = 0;
+      for (const edit of edits) {
+        result += xliff.slice(position, edit.start) + edit.value;
+        position = edit.end;
+      }
+      return result + xliff.slice(position);
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import {
+  createCacheKey,
+  DenoKvTranslationCache,
+  type KvStore,
+  MemoryTranslationCache,
+} from "../mod.ts";
+
+Deno.test("createCacheKey - depends on every part", async () => {
+  const base = {
+    sourceLocale: "en",
+    targetLocale: "es",
+    fast: false,
+    text: "Hello",
+  };
+  const key = await createCacheKey(base);
+
+  assertEquals(await createCacheKey({ ...base }), key);
+  assertNotEquals(await createCacheKey({ ...base, targetLocale: "fr" }), key);
+  assertNotEquals(await createCacheKey({ ...base, fast: true }), key);
+  assertNotEquals(await createCacheKey({ ...base, hints: ["button"] }), key);
+  assertNotEquals(await createCacheKey({ ...base, text: "Hello!" }), key);
+});
+
+Deno.test("MemoryTranslationCache - evicts least recently used", async () => {
+  const cache = new MemoryTranslationCache({ maxEntries: 2 });
+  await cache.set("a", "A");
+  await cache.set("b", "B");
+  assertEquals(await cache.get("a"), "A");
+
+  await cache.set("c", "C");
+  assertEquals(cache.size, 2);
+  assertEquals(await cache.get("a"), "A");
+  assertEquals(await cache.get("b"), undefined);
+  assertEquals(await cache.get("c"), "C");
+
+  await cache.delete("a");
+  assertEquals(await cache.get("a"), undefined);
+});
+
+Deno.test("DenoKvTranslationCache - stores entries under prefix", async () => {
+  const store = new Map<string, unknown>();
+  const kv: KvStore = {
+    get: <T>(key: string[]) =>
+      Promise.resolve({
+        value: (store.get(key.join("/")) ?? null) as T | null,
+      }),
+    set: (key: string[], value: unknown) => {
+      store.set(key.join("/"), value);
+      return Promise.resolve();
+    },
+    delete: (key: string[]) => {
+      store.delete(key.join("/"));
+      return Promise.resolve();
+    },
+  };
+
+  const cache = new DenoKvTranslationCache(kv, { prefix: ["test"] });
+  await cache.set("key", "value");
+  assertEquals(store.get("test/key"), "value");
+  assertEquals(await cache.get("key"), "value");
+
+  await cache.delete("key");
+  assertEquals(await cache.get("key"), undefined);
+});
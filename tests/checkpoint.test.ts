@@ -0,0 +1,204 @@
+import { assertEquals, assertNotEquals, assertRejects } from "@std/assert";
+import {
+  DenoKvCheckpointStore,
+  type KvCheckpointBackend,
+  MemoryCheckpointStore,
+  MockLingoDotDevEngine,
+  ServerError,
+  ValidationError,
+} from "../mod.ts";
+
+const CONTENT = { a: "One", b: "Two", c: "Three" };
+const PARAMS = {
+  sourceLocale: "en",
+  targetLocale: "fr",
+  workflowId: "job-1",
+} as const;
+
+Deno.test("localizeObjectJob - resumes from the first unfinished chunk", async () => {
+  const checkpointStore = new MemoryCheckpointStore();
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" }, {
+    batchSize: 1,
+    checkpointStore,
+  });
+
+  // The second chunk fails once the first one completed
+  await assertRejects(
+    () =>
+      engine.localizeObjectJob(
+        CONTENT,
+        PARAMS,
+        () => engine.injectFailures({ status: 500 }),
+      ),
+    ServerError,
+  );
+  assertEquals(
+    (await checkpointStore.load("job-1")).map((checkpoint) => ({
+      chunkIndex: checkpoint.chunkIndex,
+      keys: Object.keys(checkpoint.translated),
+    })),
+    [{ chunkIndex: 0, keys: ["a"] }],
+  );
+
+  const result = await engine.localizeObjectJob(CONTENT, PARAMS);
+
+  // Only the unfinished chunks are sent again, after the saved ones
+  const resumed = engine.requests.slice(2);
+  assertEquals(resumed.map((request) => request.body?.data), [
+    { b: "Two" },
+    { c: "Three" },
+  ]);
+  assertEquals(
+    resumed.map((request) =>
+      (request.body?.params as { workflowId: string }).workflowId
+    ),
+    ["job-1", "job-1"],
+  );
+  assertEquals(Object.keys(result), ["a", "b", "c"]);
+  assertNotEquals(result.a, "One");
+  // Completed jobs leave no checkpoint behind
+  assertEquals(await checkpointStore.load("job-1"), []);
+});
+
+Deno.test("localizeObjectJob - retranslates strings changed since the checkpoint", async () => {
+  const checkpointStore = new MemoryCheckpointStore();
+  await checkpointStore.save("job-1", {
+    chunkIndex: 0,
+    sourceLocale: "en",
+    targetLocale: "fr",
+    fast: false,
+    source: { a: "One", b: "Deux" },
+    translated: { a: "Un", b: "Deux" },
+  });
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { fr: { Two: "Deux", Three: "Trois" } },
+  });
+
+  const result = await engine.localizeObjectJob(CONTENT, {
+    ...PARAMS,
+    checkpointStore,
+    keepCheckpoints: true,
+  });
+
+  assertEquals(result, { a: "Un", b: "Deux", c: "Trois" });
+  assertEquals(engine.requests[0].body?.data, { b: "Two", c: "Three" });
+  assertEquals(
+    (await checkpointStore.load("job-1")).map((c) => c.chunkIndex),
+    [0, 1],
+  );
+});
+
+Deno.test("localizeObjectJob - ignores checkpoints of other locales", async () => {
+  const checkpointStore = new MemoryCheckpointStore();
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      fr: { One: "Un", Two: "Deux", Three: "Trois" },
+      es: { One: "Uno", Two: "Dos", Three: "Tres" },
+    },
+  }, { batchSize: 1, checkpointStore });
+
+  await assertRejects(
+    () =>
+      engine.localizeObjectJob(
+        CONTENT,
+        PARAMS,
+        () => engine.injectFailures({ status: 500 }),
+      ),
+    ServerError,
+  );
+  const result = await engine.localizeObjectJob(CONTENT, {
+    ...PARAMS,
+    targetLocale: "es",
+  });
+
+  assertEquals(result, { a: "Uno", b: "Dos", c: "Tres" });
+  assertEquals(engine.requests.slice(2).map((request) => request.body?.data), [
+    { a: "One" },
+    { b: "Two" },
+    { c: "Three" },
+  ]);
+});
+
+Deno.test("localizeObjectJob - requires a workflow ID and a store", async () => {
+  const engine = new MockLingoDotDevEngine();
+
+  await assertRejects(
+    () => engine.localizeObjectJob(CONTENT, PARAMS),
+    ValidationError,
+    "checkpoint store",
+  );
+  await assertRejects(
+    () =>
+      engine.localizeObjectJob(CONTENT, {
+        ...PARAMS,
+        workflowId: "",
+        checkpointStore: new MemoryCheckpointStore(),
+      }),
+    ValidationError,
+    "workflowId",
+  );
+});
+
+Deno.test("DenoKvCheckpointStore - stores chunks under prefix", async () => {
+  const store = new Map<string, { key: unknown[]; value: unknown }>();
+  const kv: KvCheckpointBackend = {
+    set: (key, value) => {
+      store.set(key.join("/"), { key, value });
+      return Promise.resolve();
+    },
+    delete: (key) => {
+      store.delete(key.join("/"));
+      return Promise.resolve();
+    },
+    list: <T>({ prefix }: { prefix: Array<string | number> }) => {
+      const entries = [...store.entries()]
+        .filter(([path]) => path.startsWith(`${prefix.join("/")}/`))
+        .map(([, entry]) => entry as { key: unknown[]; value: T });
+      return (async function* () {
+        yield* entries;
+      })();
+    },
+  };
+  const checkpoints = new DenoKvCheckpointStore(kv, { prefix: ["test"] });
+
+  const checkpoint = {
+    chunkIndex: 1,
+    sourceLocale: "en",
+    targetLocale: "fr",
+    fast: false,
+    source: { a: "A" },
+    translated: {},
+  };
+  await checkpoints.save("job-1", { ...checkpoint, chunkIndex: 3 });
+  await checkpoints.save("job-1", checkpoint);
+  await checkpoints.save("job-2", checkpoint);
+  const headers = () =>
+    [...store.keys()].filter((key) => key.split("/").length === 3);
+  assertEquals(headers(), ["test/job-1/3", "test/job-1/1", "test/job-2/1"]);
+  assertEquals(await checkpoints.load("job-1"), [
+    checkpoint,
+    { ...checkpoint, chunkIndex: 3 },
+  ]);
+
+  await checkpoints.delete("job-1");
+  assertEquals(headers(), ["test/job-2/1"]);
+  assertEquals(
+    [...store.keys()].every((key) => key.startsWith("test/job-2/1")),
+    true,
+  );
+
+  // Large chunks are split across entries under the 64 KiB value limit
+  const large = { ...checkpoint, source: { a: "é".repeat(100_000) } };
+  await checkpoints.save("job-2", large);
+  assertEquals(await checkpoints.load("job-2"), [large]);
+  for (const { value } of store.values()) {
+    assertEquals(JSON.stringify(value).length < 32_000, true);
+  }
+  // Saving a chunk again replaces its previous entries
+  assertEquals(
+    store.size,
+    1 + Math.ceil(JSON.stringify(large).length / 30_000),
+  );
+});
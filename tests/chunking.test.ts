@@ -0,0 +1,115 @@
+import { assertEquals } from "@std/assert";
+import { createSizer, MockLingoDotDevEngine, splitText } from "../mod.ts";
+
+// Size in characters of a request body, as sent
+function requestSize(body: unknown): number {
+  return Array.from(JSON.stringify(body, null, 2)).length;
+}
+
+Deno.test("createSizer - measures scripts without spaces", () => {
+  const words = createSizer("words");
+  assertEquals(words("Hello brave new world"), 4);
+  assertEquals(words("東京は日本の首都です。") > 1, true);
+
+  assertEquals(createSizer("characters")("日本語"), 3);
+  assertEquals(createSizer("bytes")("日本語"), 9);
+  assertEquals(createSizer("tokens")("日本語 text"), 5);
+  assertEquals(createSizer((text) => text.length * 2)("ab"), 4);
+});
+
+Deno.test("splitText - splits at sentence boundaries", () => {
+  const measure = createSizer("characters");
+  const text = "First sentence. Second one! A third?";
+  const parts = splitText(text, 16, measure);
+
+  assertEquals(parts, ["First sentence. ", "Second one! ", "A third?"]);
+  assertEquals(parts.join(""), text);
+
+  const long = "supercalifragilistic";
+  assertEquals(splitText(long, 8, measure), ["supercal", "ifragili", "stic"]);
+});
+
+Deno.test("LingoDotDevEngine - splits oversized values and reassembles them", async () => {
+  const engine = new MockLingoDotDevEngine({}, {
+    chunkSizing: "characters",
+    maxChunkSize: 190,
+    idealBatchItemSize: 12,
+  });
+  const article =
+    "日本の首都は東京です。大阪は第二の都市です。京都は古都です。";
+
+  const result = await engine.localizeObject(
+    { title: "Intro", article },
+    { sourceLocale: "ja", targetLocale: "en" },
+  );
+
+  assertEquals(result, { title: "Intro", article });
+  const sentKeys = engine.requests.flatMap((request) =>
+    Object.keys(request.body?.data as Record<string, string>)
+  );
+  assertEquals(sentKeys, [
+    "title",
+    "article::part/0",
+    "article::part/1",
+    "article::part/2",
+  ]);
+  for (const request of engine.requests) {
+    assertEquals(requestSize(request.body) <= 190, true);
+  }
+});
+
+Deno.test("LingoDotDevEngine - counts keys and hints in maxChunkSize", async () => {
+  const engine = new MockLingoDotDevEngine({}, {
+    chunkSizing: "characters",
+    maxChunkSize: 400,
+  });
+  const hint =
+    "Label of the primary button in the checkout confirmation dialog";
+
+  await engine.localizeObject({
+    checkoutConfirmationDialogPrimaryButton: "Pay",
+    checkoutConfirmationDialogSecondaryButton: "Back",
+  }, {
+    sourceLocale: "en",
+    targetLocale: "es",
+    hints: {
+      checkoutConfirmationDialogPrimaryButton: [hint],
+      checkoutConfirmationDialogSecondaryButton: [hint],
+    },
+  });
+
+  // The values alone would fit in a single request
+  assertEquals(engine.requests.length, 2);
+  for (const request of engine.requests) {
+    assertEquals(requestSize(request.body) <= 400, true);
+  }
+});
+
+Deno.test("LingoDotDevEngine - never splits inside placeholders", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" }, {
+    maxChunkSize: 30,
+  });
+  const message = "Your inbox was synced. " +
+    "{count, plural, one {You have # new message. Read it now.} " +
+    "other {You have # new messages. Read them now.}} Hello %s, welcome back.";
+  const chunks: Record<string, string>[] = [];
+
+  const result = await engine.localizeObject(
+    { message },
+    { sourceLocale: "en", targetLocale: "fr" },
+    (_progress, _sourceChunk, processedChunk) => chunks.push(processedChunk),
+  );
+
+  assertEquals(
+    /\{count, plural, one \{.+\} other \{.+\}\} .*%s, /.test(result.message),
+    true,
+  );
+  for (const request of engine.requests) {
+    for (const value of Object.values(request.body?.data as object)) {
+      assertEquals(/plural|\{|%s/.test(value), false);
+    }
+  }
+  // Progress reports the whole value once its last part is done
+  assertEquals(chunks.flatMap(Object.keys), ["message"]);
+  assertEquals(chunks.at(-1)?.message, result.message);
+});
@@ -0,0 +1,147 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  checkGlossary,
+  type Glossary,
+  GlossaryViolationError,
+  MemoryTranslationCache,
+  MemoryTranslationMemory,
+  MockLingoDotDevEngine,
+} from "../mod.ts";
+
+const DICTIONARY = {
+  es: {
+    "Open your Workspace": "Abre tu espacio",
+    "Lingo Cloud is ready": "Nube Lingo está lista",
+    "Share the workspace": "Comparte el espacio de trabajo",
+  },
+};
+
+const GLOSSARY: Glossary = {
+  terms: { es: { Workspace: "espacio de trabajo" } },
+  doNotTranslate: ["Lingo Cloud"],
+};
+
+Deno.test("checkGlossary - reports missing terms", () => {
+  const sources = { a: "Open your Workspace", b: "Lingo Cloud is ready" };
+
+  assertEquals(
+    checkGlossary(GLOSSARY, "es", sources, {
+      a: "Abre tu espacio de trabajo",
+      b: "Nube Lingo está lista",
+    }),
+    [{
+      key: "b",
+      term: "Lingo Cloud",
+      expected: "Lingo Cloud",
+      translation: "Nube Lingo está lista",
+    }],
+  );
+  // Terms match whole words only, case-sensitively by default
+  assertEquals(
+    checkGlossary(GLOSSARY, "es", { a: "Workspaces", b: "workspace" }, {
+      a: "Espacios",
+      b: "espacio",
+    }),
+    [],
+  );
+  assertEquals(
+    checkGlossary({ ...GLOSSARY, caseSensitive: false }, "es", {
+      a: "Share the workspace",
+    }, { a: "Comparte el Espacio de Trabajo" }),
+    [],
+  );
+});
+
+Deno.test("LingoDotDevEngine - flags glossary violations", async () => {
+  const cache = new MemoryTranslationCache();
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  }, { cache });
+  const reported: unknown[] = [];
+
+  const result = await engine.localizeObject(
+    { a: "Open your Workspace", b: "Lingo Cloud is ready", c: "Hello" },
+    {
+      sourceLocale: "en",
+      targetLocale: "es",
+      glossary: {
+        ...GLOSSARY,
+        onViolation: (violations) => reported.push(...violations),
+      },
+    },
+  );
+
+  assertEquals(result.a, "Abre tu espacio");
+  assertEquals(
+    reported.map((violation) => (violation as { key: string }).key),
+    ["a", "b"],
+  );
+  assertEquals(engine.requests[0].body?.glossary, {
+    terms: { Workspace: "espacio de trabajo" },
+    doNotTranslate: ["Lingo Cloud"],
+    caseSensitive: true,
+  });
+  // Only the translation following the glossary is cached
+  assertEquals(cache.size, 1);
+});
+
+Deno.test("LingoDotDevEngine - rejects glossary violations", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  }, { glossary: { ...GLOSSARY, enforcement: "reject" } });
+
+  const error = await assertRejects(
+    () =>
+      engine.localizeText("Lingo Cloud is ready", {
+        sourceLocale: "en",
+        targetLocale: "es",
+      }),
+    GlossaryViolationError,
+    '"Lingo Cloud" in "text"',
+  );
+  assertEquals(error.violations.length, 1);
+
+  // The term is translated as expected
+  assertEquals(
+    await engine.localizeText("Share the workspace", {
+      sourceLocale: "en",
+      targetLocale: "es",
+      glossary: { ...GLOSSARY, caseSensitive: false, enforcement: "reject" },
+    }),
+    "Comparte el espacio de trabajo",
+  );
+});
+
+Deno.test("LingoDotDevEngine - reuses translation memory matches", async () => {
+  const translationMemory = new MemoryTranslationMemory([{
+    sourceLocale: "en",
+    targetLocale: "es",
+    source: "Open your Workspace",
+    target: "Abre tu espacio de trabajo",
+  }]);
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  }, { translationMemory, glossary: { ...GLOSSARY, enforcement: "reject" } });
+
+  const result = await engine.localizeObject(
+    { a: "Open your Workspace" },
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(result, { a: "Abre tu espacio de trabajo" });
+  assertEquals(engine.requests.length, 0);
+
+  await translationMemory.add({
+    sourceLocale: "en",
+    targetLocale: "fr",
+    source: "Hello",
+    target: "Bonjour",
+  });
+  assertEquals(translationMemory.export().map((entry) => entry.target), [
+    "Abre tu espacio de trabajo",
+    "Bonjour",
+  ]);
+});
@@ -0,0 +1,303 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { DOMParser } from "linkedom";
+import { MockLingoDotDevEngine, ValidationError } from "../mod.ts";
+
+function createEngine() {
+  return new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      es: {
+        Home: "Inicio",
+        Homepage: "Página principal",
+        Welcome: "Bienvenido",
+        "Fish & Chips": "Pescado y <papas>",
+        'Say "hi"': 'Di "hola"',
+        Description: "Descripción",
+      },
+    },
+  });
+}
+
+Deno.test("localizeHtml - replaces repeated strings and substrings in place", async () => {
+  const engine = createEngine();
+
+  const result = await engine.localizeHtml(
+    `<html><body><a>Home</a><a title="Home">Homepage</a><p>Home</p></body></html>`,
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(
+    result,
+    `<html lang="es"><body><a>Inicio</a><a title="Inicio">Página principal</a><p>Inicio</p></body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - keeps a single lang attribute", async () => {
+  const engine = createEngine();
+
+  const result = await engine.localizeHtml(
+    `<!DOCTYPE html>\n<html class="x" lang='en'><body>Welcome</body></html>`,
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(
+    result,
+    `<!DOCTYPE html>\n<html class="x" lang='es'><body>Bienvenido</body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - sets the text direction of the target locale", async () => {
+  const engine = new MockLingoDotDevEngine();
+  const params = { sourceLocale: "en", targetLocale: "ar" } as const;
+
+  const rtl = await engine.localizeHtml(
+    `<html lang="en"><body>Welcome</body></html>`,
+    params,
+  );
+  const ltr = await engine.localizeHtml(
+    `<html lang=ar dir=rtl><body>Welcome</body></html>`,
+    { ...params, targetLocale: "en_GB" as "en-GB" },
+  );
+
+  assertEquals(
+    rtl,
+    `<html dir="rtl" lang="ar"><body>Welcome</body></html>`,
+  );
+  assertEquals(ltr, `<html lang="en-GB" dir="ltr"><body>Welcome</body></html>`);
+});
+
+Deno.test("localizeHtml - translates content only on meta elements", async () => {
+  const engine = createEngine();
+
+  const result = await engine.localizeHtml(
+    `<html><head><meta name="description" content="Description"></head>` +
+      `<body><div content="Description">Welcome</div></body></html>`,
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(
+    result,
+    `<html lang="es"><head><meta name="description" content="Descripción"></head>` +
+      `<body><div content="Description">Bienvenido</div></body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - uses DOM key paths and escapes translations", async () => {
+  const engine = createEngine();
+
+  const result = await engine.localizeHtml(
+    `<html>
+  <head><title>Home</title></head>
+  <body>
+    Welcome
+    <ul><li>Fish &amp; Chips<li><img alt='Say "hi"' src=x.png></ul>
+    <script>const home = "Home";</script>
+  </body>
+</html>`,
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(Object.keys(engine.requests[0].body?.data as object), [
+    "head/0/0",
+    "body/0",
+    "body/1/0/0",
+    "body/1/1/0#alt",
+  ]);
+  assertEquals(result.includes("<title>Inicio</title>"), true);
+  assertEquals(result.includes("    Bienvenido\n"), true);
+  assertEquals(result.includes("<li>Pescado y &lt;papas&gt;<li>"), true);
+  assertEquals(result.includes(`alt='Di "hola"'`), true);
+  assertEquals(result.includes('const home = "Home";'), true);
+});
+
+Deno.test("localizeHtml - translates configured attributes", async () => {
+  const engine = createEngine();
+
+  const result = await engine.localizeHtml(
+    `<html><body><span aria-label="Home" title="Welcome">Home</span>` +
+      `<button value="Home">Home</button><select><optgroup label="Home">` +
+      `</optgroup></select></body></html>`,
+    {
+      sourceLocale: "en",
+      targetLocale: "es",
+      localizableAttributes: {
+        "*": ["aria-label", "title"],
+        button: ["value"],
+        optgroup: ["label"],
+      },
+    },
+  );
+
+  assertEquals(
+    result,
+    `<html lang="es"><body><span aria-label="Inicio" title="Bienvenido">Inicio</span>` +
+      `<button value="Inicio">Inicio</button><select><optgroup label="Inicio">` +
+      `</optgroup></select></body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - skips excluded content", async () => {
+  const engine = createEngine();
+  const html = `<html><body>
+<p>Welcome <span translate="no">Home <b translate="yes">Home</b></span></p>
+<p data-i18n-skip>Home</p>
+<nav><a class="brand">Homepage</a><div><a class="brand">Homepage</a></div></nav>
+<pre>Home</pre><p><code>Home</code></p>
+</body></html>`;
+
+  const result = await engine.localizeHtml(html, {
+    sourceLocale: "en",
+    targetLocale: "es",
+    skipSelectors: ["nav > .brand"],
+  });
+
+  assertEquals(
+    result,
+    `<html lang="es"><body>
+<p>Bienvenido <span translate="no">Home <b translate="yes">Inicio</b></span></p>
+<p data-i18n-skip>Home</p>
+<nav><a class="brand">Homepage</a><div><a class="brand">Página principal</a></div></nav>
+<pre>Home</pre><p><code>Home</code></p>
+</body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - rejects unsupported selectors", async () => {
+  const engine = createEngine();
+
+  await assertRejects(
+    () =>
+      engine.localizeHtml("<p>Home</p>", {
+        sourceLocale: "en",
+        targetLocale: "es",
+        skipSelectors: ["p:first-child"],
+      }),
+    Error,
+    "Unsupported selector: p:first-child",
+  );
+});
+
+Deno.test("localizeHtml - translates inline markup as one segment", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      es: {
+        "Click <0>here</0> to <1>save</1> the <2/> file <3/>":
+          "Haz clic <0>aquí</0> para <1>guardar</1> el archivo <2/> <3/>",
+        "Save the <0>big</0> <1>file</1>":
+          "Guarda el <1>archivo</1> <0>grande</0>",
+        Help: "Ayuda",
+        Icon: "Icono",
+      },
+    },
+  });
+
+  const result = await engine.localizeHtml(
+    `<html><body>
+  <p>
+    Click <a href="/help" title="Help">here</a>
+    to <b>save</b> the <code>config.json</code> file <img src=i.png alt="Icon">
+  </p>
+  <div>Save the <em>big</em> <strong>file</strong></div>
+</body></html>`,
+    { sourceLocale: "en", targetLocale: "es", segmentInlineMarkup: true },
+  );
+
+  assertEquals(
+    result,
+    `<html lang="es"><body>
+  <p>
+    Haz clic <a href="/help" title="Ayuda">aquí</a> para <b>guardar</b> el archivo <code>config.json</code> <img src=i.png alt="Icono">
+  </p>
+  <div>Guarda el <strong>archivo</strong> <em>grande</em></div>
+</body></html>`,
+  );
+});
+
+Deno.test("localizeHtml - rejects segments with broken markup", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { es: { "Click <0>here</0>": "Haz clic <0>aquí" } },
+  });
+
+  await assertRejects(
+    () =>
+      engine.localizeHtml("<p>Click <a>here</a></p>", {
+        sourceLocale: "en",
+        targetLocale: "es",
+        segmentInlineMarkup: true,
+      }),
+    ValidationError,
+    'Markup mismatch in "body/0"',
+  );
+});
+
+Deno.test("localizeHtml - DOMParser and tokenizer give the same result", async () => {
+  const html = `<!DOCTYPE html>
+<html><head><title>Home</title><meta name="description" content="Description"></head>
+<body>
+  <h1>Welcome</h1>
+  <p>Click <a href="/help" title="Help">here</a> to <b>save</b> the <code>config.json</code> file <img src="i.png" alt="Icon"></p>
+  <div>Save the <em>big</em> <strong>file</strong></div>
+  <ul><li>Home</li><li translate="no">Home</li></ul>
+  <script>const home = "Home";</script>
+</body></html>`;
+  const localize = async () => {
+    const engine = new MockLingoDotDevEngine({
+      mode: "dictionary",
+      dictionary: {
+        es: {
+          Home: "Inicio",
+          Welcome: "Bienvenido",
+          Description: "Descripción",
+          Help: "Ayuda",
+          Icon: "Icono",
+          "Click <0>here</0> to <1>save</1> the <2/> file <3/>":
+            "Haz clic <0>aquí</0> para <1>guardar</1> el archivo <2/> <3/>",
+          "Save the <0>big</0> <1>file</1>":
+            "Guarda el <1>archivo</1> <0>grande</0>",
+        },
+      },
+    });
+    const result = await engine.localizeHtml(html, {
+      sourceLocale: "en",
+      targetLocale: "es",
+      segmentInlineMarkup: true,
+    });
+    return { data: engine.requests[0].body?.data, result };
+  };
+
+  const tokenized = await localize();
+  let parsed = 0;
+  Object.assign(globalThis, {
+    DOMParser: class {
+      parseFromString(markup: string) {
+        parsed++;
+        return new DOMParser().parseFromString(markup, "text/html");
+      }
+    },
+  });
+  try {
+    assertEquals(await localize(), tokenized);
+  } finally {
+    Reflect.deleteProperty(globalThis, "DOMParser");
+  }
+
+  assertEquals(parsed, 1);
+  assertEquals(Object.keys(tokenized.data as object), [
+    "head/0/0",
+    "head/1#content",
+    "body/0/0",
+    "body/1",
+    "body/1/1#title",
+    "body/1/7#alt",
+    "body/2",
+    "body/3/0/0",
+  ]);
+  assertEquals(
+    tokenized.result.includes(
+      "<div>Guarda el <strong>archivo</strong> <em>grande</em></div>",
+    ),
+    true,
+  );
+});
@@ -0,0 +1,70 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { MockLingoDotDevEngine } from "../mod.ts";
+
+const PREVIOUS_SOURCE = {
+  title: "Welcome",
+  nav: { home: "Home", about: "About us", blog: "Blog" },
+  footer: "All rights reserved",
+};
+
+const PREVIOUS_TARGET = {
+  title: "Bienvenue !",
+  nav: { home: "Accueil", about: "À propos", blog: "Blog" },
+};
+
+Deno.test("localizeObjectIncremental - translates only what changed", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" });
+
+  const { result, changes } = await engine.localizeObjectIncremental(
+    {
+      title: "Welcome",
+      nav: { home: "Home", about: "About", contact: "Contact" },
+      footer: "All rights reserved",
+      version: 2,
+    },
+    PREVIOUS_SOURCE,
+    PREVIOUS_TARGET,
+    { sourceLocale: "en", targetLocale: "fr" },
+  );
+
+  assertEquals(changes, {
+    added: ["nav/contact"],
+    changed: ["nav/about"],
+    missing: ["footer"],
+    unchanged: ["title", "nav/home"],
+    removed: ["nav/blog"],
+  });
+  assertEquals(engine.requests.length, 1);
+  assertEquals(engine.requests[0].body?.data, {
+    "nav/about": "About",
+    "nav/contact": "Contact",
+    footer: "All rights reserved",
+  });
+  // Reviewed translations are kept verbatim, removed keys are dropped
+  assertEquals(result.title, "Bienvenue !");
+  assertEquals(result.nav.home, "Accueil");
+  assertEquals(Object.keys(result.nav), ["home", "about", "contact"]);
+  assertNotEquals(result.nav.about, "About");
+  assertEquals(result.version, 2);
+});
+
+Deno.test("localizeObjectIncremental - sends nothing without changes", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" });
+
+  const { result, changes } = await engine.localizeObjectIncremental(
+    { title: "Welcome" },
+    PREVIOUS_SOURCE,
+    PREVIOUS_TARGET,
+    { sourceLocale: "en", targetLocale: "fr" },
+  );
+
+  assertEquals(result, { title: "Bienvenue !" });
+  assertEquals(changes.unchanged, ["title"]);
+  assertEquals(changes.removed, [
+    "nav/home",
+    "nav/about",
+    "nav/blog",
+    "footer",
+  ]);
+  assertEquals(engine.requests.length, 0);
+});
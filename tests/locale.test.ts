@@ -0,0 +1,175 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  AbortedError,
+  canonicalizeLocale,
+  getLocaleFallbacks,
+  getLocaleInfo,
+  getTextDirection,
+  isSupportedLocale,
+  MockLingoDotDevEngine,
+  normalizeLocale,
+  ValidationError,
+} from "../mod.ts";
+
+Deno.test("canonicalizeLocale - fixes separators, case and aliases", () => {
+  assertEquals(canonicalizeLocale("es_MX"), "es-MX");
+  assertEquals(canonicalizeLocale("EN-us"), "en-US");
+  assertEquals(canonicalizeLocale("zh-hant-tw"), "zh-Hant-TW");
+  assertEquals(canonicalizeLocale("iw"), "he");
+  assertThrows(() => canonicalizeLocale("x"), ValidationError, "Invalid");
+});
+
+Deno.test("normalizeLocale - validates against the supported locales", () => {
+  assertEquals(normalizeLocale("pt_br"), "pt-BR");
+  assertEquals(normalizeLocale("en-US-u-ca-gregory"), "en-US");
+  assertEquals(isSupportedLocale("sr-Latn-RS"), true);
+  assertEquals(isSupportedLocale("en-us"), false);
+  assertThrows(
+    () => normalizeLocale("tlh"),
+    ValidationError,
+    "Unsupported",
+  );
+});
+
+Deno.test("normalizeLocale - maps script subtags to supported locales", () => {
+  assertEquals(normalizeLocale("zh-Hant"), "zh-TW");
+  assertEquals(normalizeLocale("zh-Hant-TW"), "zh-TW");
+  assertEquals(normalizeLocale("zh_hant_hk"), "zh-HK");
+  assertEquals(normalizeLocale("zh-Hans"), "zh-CN");
+  assertEquals(normalizeLocale("zh-Hans-CN"), "zh-CN");
+  // The script wins over the region
+  assertEquals(normalizeLocale("zh-Hans-TW"), "zh");
+  assertEquals(normalizeLocale("sr-Latn"), "sr-Latn-RS");
+  assertThrows(
+    () => normalizeLocale("zh-Hant", ["zh", "zh-CN"]),
+    ValidationError,
+    "Unsupported",
+  );
+});
+
+Deno.test("getLocaleFallbacks - drops subtags down to the source locale", () => {
+  assertEquals(getLocaleFallbacks("pt-BR", "en"), ["pt-BR", "pt", "en"]);
+  assertEquals(getLocaleFallbacks("zh-Hant-TW"), ["zh-TW", "zh"]);
+  assertEquals(getLocaleFallbacks("en-GB", "en"), ["en-GB", "en"]);
+});
+
+Deno.test("getLocaleInfo - reports script and direction", () => {
+  assertEquals(getLocaleInfo("ar-EG"), {
+    code: "ar-EG",
+    language: "ar",
+    script: "Arab",
+    region: "EG",
+    direction: "rtl",
+    supported: true,
+  });
+  assertEquals(getLocaleInfo("zh-TW").script, "Hant");
+  assertEquals(
+    ["he", "fa", "ur", "en", "ja"].map(getTextDirection),
+    ["rtl", "rtl", "rtl", "ltr", "ltr"],
+  );
+});
+
+Deno.test("LingoDotDevEngine - normalizes locale parameters", async () => {
+  const engine = new MockLingoDotDevEngine();
+
+  await engine.localizeText("Hello", {
+    sourceLocale: "EN" as "en",
+    targetLocale: "es_MX" as "es-MX",
+  });
+
+  assertEquals(engine.requests[0].body?.locale, {
+    source: "en",
+    target: "es-MX",
+  });
+  // Codes missing from the built-in list are sent, in canonical form
+  await engine.localizeText("Hello", {
+    sourceLocale: "en",
+    targetLocale: "TLH_latn" as "en",
+  });
+  assertEquals(engine.requests[1].body?.locale, {
+    source: "en",
+    target: "tlh-Latn",
+  });
+  await assertRejects(
+    () =>
+      engine.localizeText("Hello", {
+        sourceLocale: "en",
+        targetLocale: "not a locale" as "en",
+      }),
+    ValidationError,
+    'Invalid locale code "not a locale"',
+  );
+});
+
+Deno.test("getSupportedLocales - caches the discovered locales", async () => {
+  const supportedLocales = { source: ["en"], target: ["es"], fast: ["es"] };
+  const engine = new MockLingoDotDevEngine({ supportedLocales });
+
+  const [first, second] = await Promise.all([
+    engine.getSupportedLocales(),
+    engine.getSupportedLocales(),
+  ]);
+  const cached = await engine.getSupportedLocales();
+  const refreshed = await engine.getSupportedLocales({ refresh: true });
+
+  assertEquals([first, second, cached, refreshed], [
+    supportedLocales,
+    supportedLocales,
+    supportedLocales,
+    supportedLocales,
+  ]);
+  assertEquals(engine.requests.map((request) => request.endpoint), [
+    "locales",
+    "locales",
+  ]);
+});
+
+Deno.test("LingoDotDevEngine - validates locales against the discovered list", async () => {
+  const engine = new MockLingoDotDevEngine({
+    supportedLocales: { source: ["en"], target: ["es", "tlh"], fast: ["es"] },
+  }, { discoverLocales: true });
+  const params = { sourceLocale: "en", targetLocale: "tlh" as "es" } as const;
+
+  assertEquals(await engine.localizeText("Hello", params), "Hello");
+  await assertRejects(
+    () => engine.localizeText("Hello", { ...params, targetLocale: "fr" }),
+    ValidationError,
+    'Unsupported locale "fr"',
+  );
+  await assertRejects(
+    () => engine.localizeText("Hello", { ...params, fast: true }),
+    ValidationError,
+    'Fast mode is not supported for locale "tlh"',
+  );
+  assertEquals(engine.requests.map((request) => request.endpoint), [
+    "locales",
+    "i18n",
+  ]);
+});
+
+Deno.test("getSupportedLocales - tolerates a missing fast list and aborts", async () => {
+  const engine = new MockLingoDotDevEngine({
+    supportedLocales: { source: ["en"], target: ["es"] },
+    latency: 20,
+  }, { discoverLocales: true });
+  const controller = new AbortController();
+
+  const aborted = engine.getSupportedLocales({}, controller.signal);
+  const shared = engine.getSupportedLocales();
+  controller.abort();
+
+  await assertRejects(() => aborted, AbortedError);
+  assertEquals(await shared, { source: ["en"], target: ["es"] });
+  assertEquals(
+    await engine.localizeText("Hello", {
+      sourceLocale: "en",
+      targetLocale: "es",
+      fast: true,
+    }),
+    "Hello",
+  );
+  assertEquals(engine.requests.map((request) => request.endpoint), [
+    "locales",
+    "i18n",
+  ]);
+});
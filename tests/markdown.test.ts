@@ -0,0 +1,151 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { MockLingoDotDevEngine, ValidationError } from "../mod.ts";
+
+const DOCUMENT = `---
+title: Getting started
+layout: docs
+description: "How to \\"install\\" the SDK"
+---
+
+# Getting started #
+
+Install the [SDK](https://lingo.dev/sdk "Docs") with \`deno add\`,
+then read the **guide**.\r
+See https://lingo.dev for more.
+
+> Quoted *advice*
+> on two lines
+
+- First item
+  continued here
+- [ ] Task with ![logo](logo.png)
+
+| Name | Description |
+| ---- | :---------- |
+| \`id\` | Unique key |
+
+\`\`\`ts
+const greeting = "Hello";
+\`\`\`
+
+    indented code
+
+[sdk]: https://lingo.dev/sdk
+<div>Raw HTML</div>
+`;
+
+Deno.test("localizeMarkdown - round-trips the document exactly", async () => {
+  const engine = new MockLingoDotDevEngine();
+
+  const result = await engine.localizeMarkdown(DOCUMENT, {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  assertEquals(result, DOCUMENT);
+  assertEquals(engine.requests[0].body?.data, {
+    "frontmatter/title": "Getting started",
+    "frontmatter/description": 'How to "install" the SDK',
+    "line/7": "Getting started",
+    "line/9":
+      "Install the <0>SDK</0> with <1/>,\nthen read the **guide**.\nSee <2/> for more.",
+    "line/13": "Quoted *advice*\non two lines",
+    "line/16": "First item\ncontinued here",
+    "line/18": "Task with <0>logo</0>",
+    "line/20/1": "Name",
+    "line/20/2": "Description",
+    "line/22/2": "Unique key",
+  });
+});
+
+Deno.test("localizeMarkdown - renders translations in place", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      es: {
+        "Getting started": "Primeros pasos",
+        'How to "install" the SDK': 'Cómo "instalar" el SDK',
+        "Quoted *advice*\non two lines": "*Consejo* citado",
+        "First item\ncontinued here": "Primer elemento\ncontinúa\naquí",
+        "Task with <0>logo</0>": "Tarea con <0>logotipo</0>",
+        "Unique key": "Clave | única",
+      },
+    },
+  });
+
+  const result = await engine.localizeMarkdown(
+    `---
+title: Getting started
+description: 'How to "install" the SDK'
+---
+# Getting started
+
+> Quoted *advice*
+> on two lines
+
+- First item
+  continued here
+- Task with ![logo](logo.png)
+
+| Key |
+| --- |
+| Unique key |
+`,
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(
+    result,
+    `---
+title: Primeros pasos
+description: 'Cómo "instalar" el SDK'
+---
+# Primeros pasos
+
+> *Consejo* citado
+
+- Primer elemento
+  continúa
+  aquí
+- Tarea con ![logotipo](logo.png)
+
+| Key |
+| --- |
+| Clave \\| única |
+`,
+  );
+});
+
+Deno.test("localizeMarkdown - rejects translations breaking links", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { es: { "Read the <0>docs</0>": "Lee la documentación" } },
+  });
+
+  await assertRejects(
+    () =>
+      engine.localizeMarkdown("Read the [docs](https://lingo.dev)", {
+        sourceLocale: "en",
+        targetLocale: "es",
+      }),
+    ValidationError,
+    'Markup mismatch in "line/1"',
+  );
+});
+
+Deno.test("localizeMarkdown - HTML blocks interrupt paragraphs", async () => {
+  const engine = new MockLingoDotDevEngine();
+
+  const markdown =
+    'Intro text\n<div class="note">\nRaw <b>HTML</b>\n</div>\n\nSee <em>this</em>\n<span>inline</span> too';
+  const result = await engine.localizeMarkdown(markdown, {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  assertEquals(result, markdown);
+  assertEquals(
+    Object.values(engine.requests[0].body?.data as Record<string, string>),
+    ["Intro text", "See <0/>this<1/>\n<2/>inline<3/> too"],
+  );
+});
@@ -0,0 +1,120 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { AbortedError, MockLingoDotDevEngine, ServerError } from "../mod.ts";
+
+Deno.test("MockLingoDotDevEngine - identity mode", async () => {
+  const engine = new MockLingoDotDevEngine();
+  const result = await engine.localizeObject(
+    { title: "Hello", nested: { items: ["One", "Two"] } },
+    { sourceLocale: "en", targetLocale: "es" },
+  );
+
+  assertEquals(result, { title: "Hello", nested: { items: ["One", "Two"] } });
+  assertEquals(engine.requests.length, 1);
+  assertEquals(engine.requests[0].endpoint, "i18n");
+});
+
+Deno.test("MockLingoDotDevEngine - dictionary mode", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { es: { Hello: "Hola" } },
+  });
+
+  const result = await engine.localizeStringArray(["Hello", "Unknown"], {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  assertEquals(result, ["Hola", "Unknown"]);
+});
+
+Deno.test("MockLingoDotDevEngine - dictionary mode matches placeholders", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      es: {
+        "Hello {name}": "Hola {name}",
+        "{count} of {total}": "{total} en total, {count}",
+        "You have {count, plural, one {# item} other {# items}}":
+          "Tienes {count, plural, one {# artículo} other {# artículos}}",
+      },
+    },
+  });
+
+  const result = await engine.localizeObject({
+    greeting: "Hello {name}",
+    progress: "{count} of {total}",
+    cart: "You have {count, plural, one {# item} other {# items}}",
+  }, { sourceLocale: "en", targetLocale: "es" });
+
+  assertEquals(result, {
+    greeting: "Hola {name}",
+    progress: "{total} en total, {count}",
+    cart: "Tienes {count, plural, one {# artículo} other {# artículos}}",
+  });
+  assertEquals(engine.requests[0].body?.data, {
+    greeting: "Hello ⟦0⟧",
+    progress: "⟦0⟧ of ⟦1⟧",
+    cart: "You have ⟦0⟧",
+    "cart::icu/0/0": "⟦0⟧ item",
+    "cart::icu/0/1": "⟦0⟧ items",
+  });
+});
+
+Deno.test("MockLingoDotDevEngine - pseudo mode goes through chunking", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" }, {
+    batchSize: 2,
+  });
+  const progress: number[] = [];
+
+  const result = await engine.localizeChat(
+    [
+      { name: "Alice", text: "Hi" },
+      { name: "Bob", text: "Hey" },
+      { name: "Carol", text: "Yo" },
+    ],
+    { sourceLocale: "en", targetLocale: "es" },
+    (value) => progress.push(value),
+  );
+
+  assertEquals(result.map((message) => message.text), [
+    "[Ĥí~]",
+    "[Ĥéý~]",
+    "[Ýö~]",
+  ]);
+  assertEquals(engine.requests.length, 2);
+  assertEquals(progress, [50, 100]);
+});
+
+Deno.test("MockLingoDotDevEngine - injected failures", async () => {
+  const engine = new MockLingoDotDevEngine({}, {
+    retry: { maxAttempts: 2, baseDelay: 1 },
+  });
+  engine.injectFailures({ status: 503 }, { status: 502 });
+
+  const error = await assertRejects(
+    () =>
+      engine.localizeText("Hello", { sourceLocale: "en", targetLocale: "es" }),
+    ServerError,
+  );
+  assertEquals(error.status, 502);
+  assertEquals(engine.requests.length, 2);
+
+  assertEquals(await engine.recognizeLocale("Hello"), "en");
+});
+
+Deno.test("MockLingoDotDevEngine - latency respects abort", async () => {
+  const engine = new MockLingoDotDevEngine({ latency: 10000 });
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 10);
+
+  await assertRejects(
+    () =>
+      engine.localizeText(
+        "Hello",
+        { sourceLocale: "en", targetLocale: "es" },
+        undefined,
+        controller.signal,
+      ),
+    AbortedError,
+  );
+});
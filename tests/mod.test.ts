@@ -1,5 +1,16 @@
-import { assertEquals, assertRejects } from "@std/assert";
-import { LingoDotDevEngine, ReplexicaEngine } from "../mod.ts";
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import {
+  AbortedError,
+  AuthenticationError,
+  LingoDotDevEngine,
+  MemoryTranslationCache,
+  NetworkError,
+  pseudoLocalize,
+  RateLimitError,
+  ReplexicaEngine,
+  ServerError,
+  ValidationError,
+} from "../mod.ts";
 
 // Mock fetch for testing
 let mockFetch: typeof fetch;
@@ -116,7 +127,7 @@ Deno.test("LingoDotDevEngine - localizeText with abort signal", async () => {
         undefined,
         controller.signal,
       ),
-    DOMException,
+    AbortedError,
     "The operation was aborted",
   );
 
@@ -138,6 +149,274 @@ Deno.test("LingoDotDevEngine - batchLocalizeText", async () => {
   restoreFetch();
 });
 
+Deno.test("LingoDotDevEngine - batchLocalizeText limits concurrency and rejects on failure", async () => {
+  let active = 0;
+  let maxActive = 0;
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: async (_input, init) => {
+      const body = JSON.parse(String(init?.body));
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      if (body.locale.target === "de") {
+        return new Response("Bad request", { status: 400 });
+      }
+      return new Response(
+        JSON.stringify({ data: { text: `${body.locale.target}:Hello` } }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    },
+  });
+  const targetLocales = ["es", "fr", "it", "pt", "nl", "de"] as const;
+
+  await assertRejects(
+    () =>
+      engine.batchLocalizeText("Hello", {
+        sourceLocale: "en",
+        targetLocales: [...targetLocales],
+      }),
+    ValidationError,
+  );
+  assertEquals(maxActive, 4);
+
+  assertEquals(
+    await engine.batchLocalizeText("Hello", {
+      sourceLocale: "en",
+      targetLocales: ["fr", "es"],
+    }),
+    ["fr:Hello", "es:Hello"],
+  );
+});
+
+Deno.test("LingoDotDevEngine - localizeObject preserves nested structure", async () => {
+  let sentData: Record<string, string> = {};
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init) => {
+    const body = JSON.parse(String(init?.body));
+    sentData = body.data;
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(sentData)) {
+      data[key] = `ES:${value}`;
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify({ data }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+  };
+
+  const engine = new LingoDotDevEngine({ apiKey: "test-key" });
+  const result = await engine.localizeObject({
+    title: "Home",
+    nav: { items: ["About", "Contact"], visible: true },
+    "a/b": { count: 3, label: "Slash" },
+    "c/d": "Flat",
+    "nav/items/1": "Clash",
+    empty: null,
+  }, {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  // Flat keys are kept as is, unless they clash with a nested path
+  assertEquals(sentData, {
+    title: "Home",
+    "nav/items/0": "About",
+    "nav/items/1": "Contact",
+    "a~1b/label": "Slash",
+    "c/d": "Flat",
+    "nav~1items~11": "Clash",
+  });
+  assertEquals(result, {
+    title: "ES:Home",
+    nav: { items: ["ES:About", "ES:Contact"], visible: true },
+    "a/b": { count: 3, label: "ES:Slash" },
+    "c/d": "ES:Flat",
+    "nav/items/1": "ES:Clash",
+    empty: null,
+  });
+  assertEquals(Object.keys(result), [
+    "title",
+    "nav",
+    "a/b",
+    "c/d",
+    "nav/items/1",
+    "empty",
+  ]);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - localizeObject applies hints to nested strings", async () => {
+  let sentHints: unknown;
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: (_input, init) => {
+      const body = JSON.parse(String(init?.body));
+      sentHints = body.hints;
+      return Promise.resolve(
+        new Response(JSON.stringify({ data: body.data }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    },
+  });
+
+  await engine.localizeObject({
+    title: "Home",
+    "page/footer": "Footer",
+    nav: { items: ["About", "Contact"], label: "Menu" },
+  }, {
+    sourceLocale: "en",
+    targetLocale: "es",
+    hints: {
+      title: ["page title"],
+      page: ["page"],
+      "page/footer": ["footer"],
+      nav: ["navigation"],
+      "nav/items/1": ["link"],
+    },
+  });
+
+  // Flat keys are sent as is, and only get their own hints
+  assertEquals(sentHints, {
+    title: ["page title"],
+    "page/footer": ["footer"],
+    "nav/items/0": ["navigation"],
+    "nav/items/1": ["navigation", "link"],
+    "nav/label": ["navigation"],
+  });
+});
+
+Deno.test("LingoDotDevEngine - concurrent chunk processing", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const workflowIds = new Set<string>();
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = async (_input, init) => {
+    const body = JSON.parse(String(init?.body));
+    workflowIds.add(body.params.workflowId);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    // Later chunks finish first
+    const index = parseInt(Object.keys(body.data)[0].split("_")[1]);
+    await new Promise((resolve) => setTimeout(resolve, 20 - index * 2));
+    inFlight--;
+
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(body.data)) {
+      data[key] = `ES:${value}`;
+    }
+    return new Response(JSON.stringify({ data }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    batchSize: 1,
+    concurrency: 2,
+  });
+  const strings = Array.from({ length: 6 }, (_, i) => `String ${i}`);
+  const progress: number[] = [];
+  const result = await engine.localizeObject(
+    Object.fromEntries(strings.map((str, i) => [`item_${i}`, str])),
+    { sourceLocale: "en", targetLocale: "es", concurrency: 3 },
+    (value) => progress.push(value),
+  );
+
+  assertEquals(maxInFlight, 3);
+  assertEquals(workflowIds.size, 1);
+  assertEquals(Object.values(result), strings.map((str) => `ES:${str}`));
+  assertEquals(progress, [17, 33, 50, 67, 83, 100]);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - sends only cache misses", async () => {
+  const sentData: Record<string, string>[] = [];
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init) => {
+    const body = JSON.parse(String(init?.body));
+    sentData.push(body.data);
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(body.data)) {
+      data[key] = `ES:${value}`;
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify({ data }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+  };
+
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    cache: new MemoryTranslationCache(),
+  });
+  const params = { sourceLocale: "en", targetLocale: "es" } as const;
+
+  await engine.localizeObject({ greeting: "Hello" }, params);
+  const result = await engine.localizeObject(
+    { farewell: "Goodbye", greeting: "Hello" },
+    params,
+  );
+  const cachedOnly = await engine.localizeText("Hello", params);
+
+  assertEquals(sentData, [{ greeting: "Hello" }, { farewell: "Goodbye" }]);
+  assertEquals(result, { farewell: "ES:Goodbye", greeting: "ES:Hello" });
+  assertEquals(Object.keys(result), ["farewell", "greeting"]);
+  assertEquals(cachedOnly, "ES:Hello");
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - localizeObjectToLocales reports failures per locale", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: async (_input, init) => {
+      const body = JSON.parse(String(init?.body));
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      if (body.locale.target === "fr") {
+        return new Response("Unavailable", { status: 503 });
+      }
+      return new Response(
+        JSON.stringify({ data: { title: `${body.locale.target}:Hello` } }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    },
+  });
+  const progress: string[] = [];
+
+  const result = await engine.localizeObjectToLocales(
+    { title: "Hello", count: 1 },
+    {
+      sourceLocale: "en",
+      targetLocales: ["es", "fr", "de"],
+      localeConcurrency: 2,
+    },
+    (value, locale) => progress.push(`${locale}:${value}`),
+  );
+
+  assertEquals(result.results, {
+    es: { title: "es:Hello", count: 1 },
+    de: { title: "de:Hello", count: 1 },
+  });
+  assertEquals(result.succeeded, ["es", "de"]);
+  assertEquals(result.failed, ["fr"]);
+  assertInstanceOf(result.errors.fr, ServerError);
+  assertEquals(progress.sort(), ["de:100", "es:100"]);
+  assertEquals(maxInFlight, 2);
+});
+
 Deno.test("LingoDotDevEngine - localizeStringArray", async () => {
   let callCount = 0;
   originalFetch = globalThis.fetch;
@@ -216,30 +495,68 @@ Deno.test("LingoDotDevEngine - localizeChat", async () => {
   restoreFetch();
 });
 
+Deno.test("LingoDotDevEngine - localizeChat keeps message order and fields", async () => {
+  const sentHints: unknown[] = [];
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: (_input, init) => {
+      const body = JSON.parse(String(init?.body));
+      sentHints.push(body.hints);
+      // The API leaves out the second message
+      const { chat_1: _, ...data } = body.data;
+      return Promise.resolve(
+        new Response(
+          JSON.stringify({
+            data: Object.fromEntries(
+              Object.entries(data).map(([key, value]) => [key, `ES:${value}`]),
+            ),
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } },
+        ),
+      );
+    },
+  });
+  const transcript = [
+    { id: "m1", role: "customer", author: "Ana", body: "My order is late" },
+    { id: "m2", role: "agent", author: "Sam", body: "Let me check" },
+    { id: "m3", role: "system", author: "", body: "" },
+    { id: "m4", role: "agent", author: "Sam", body: "It ships today" },
+  ];
+  const untranslated: unknown[] = [];
+
+  const result = await engine.localizeChat(transcript, {
+    sourceLocale: "en",
+    targetLocale: "es",
+    textField: "body",
+    nameField: "author",
+    speakerHints: true,
+    onUntranslated: (indexes, locale) => untranslated.push(indexes, locale),
+  });
+
+  assertEquals(result, [
+    { id: "m1", role: "customer", author: "Ana", body: "ES:My order is late" },
+    { id: "m2", role: "agent", author: "Sam", body: "Let me check" },
+    { id: "m3", role: "system", author: "", body: "" },
+    { id: "m4", role: "agent", author: "Sam", body: "ES:It ships today" },
+  ]);
+  assertEquals(untranslated, [[1], "es"]);
+  assertEquals(sentHints, [{
+    chat_0: ["Speaker: Ana"],
+    chat_1: ["Speaker: Sam"],
+    chat_3: ["Speaker: Sam"],
+  }]);
+});
+
 Deno.test("LingoDotDevEngine - localizeHtml", async () => {
   originalFetch = globalThis.fetch;
-  globalThis.fetch = () => {
+  globalThis.fetch = (_input, init) => {
     // Mock translation by adding 'ES:' prefix to all strings
-    const mockResponse = {
-      data: {
-        "text_0": "ES:Test Page",
-        "text_1": "ES:standalone text",
-        "text_2": "ES:Hello World",
-        "text_3": "ES:This is a paragraph with",
-        "text_4": "ES:a link",
-        "text_5": "ES:and an",
-        "text_6": "ES:and some",
-        "text_7": "ES:bold",
-        "text_8": "ES:and italic",
-        "text_9": "ES:text.",
-        "attr_0_10": "ES:Link title",
-        "attr_1_11": "ES:Test image",
-        "attr_2_12": "ES:Enter text",
-        "attr_3_13": "ES:Page description",
-      },
-    };
+    const body = JSON.parse(String(init?.body));
+    const data = Object.fromEntries(
+      Object.entries(body.data).map(([key, value]) => [key, `ES:${value}`]),
+    );
     return Promise.resolve(
-      new Response(JSON.stringify(mockResponse), {
+      new Response(JSON.stringify({ data }), {
         status: 200,
         headers: { "Content-Type": "application/json" },
       }),
@@ -282,6 +599,10 @@ Deno.test("LingoDotDevEngine - localizeHtml", async () => {
   assertEquals(result.includes('lang="es"'), true);
   assertEquals(result.includes("ES:Test Page"), true);
   assertEquals(result.includes("ES:Hello World"), true);
+  assertEquals(result.includes('title="ES:Link title"'), true);
+  assertEquals(result.includes('alt="ES:Test image"'), true);
+  assertEquals(result.includes('placeholder="ES:Enter text"'), true);
+  assertEquals(result.includes('content="ES:Page description"'), true);
   assertEquals(
     result.includes('const doNotTranslate = "this text should be ignored"'),
     true,
@@ -331,6 +652,276 @@ Deno.test("LingoDotDevEngine - error handling", async () => {
   restoreFetch();
 });
 
+Deno.test("LingoDotDevEngine - typed HTTP errors", async () => {
+  const cases = [
+    { status: 400, errorClass: ValidationError },
+    { status: 401, errorClass: AuthenticationError },
+    { status: 429, errorClass: RateLimitError },
+    { status: 503, errorClass: ServerError },
+  ];
+
+  originalFetch = globalThis.fetch;
+  for (const { status, errorClass } of cases) {
+    globalThis.fetch = () =>
+      Promise.resolve(new Response(`body ${status}`, { status }));
+
+    const engine = new LingoDotDevEngine({ apiKey: "test-key" });
+    const error = await assertRejects(
+      () =>
+        engine.localizeText("Hello", {
+          sourceLocale: "en",
+          targetLocale: "es",
+        }),
+      errorClass,
+    );
+    assertEquals(error.status, status);
+    assertEquals(error.body, `body ${status}`);
+    assertEquals(error.chunkIndex, 0);
+    assertEquals(typeof error.workflowId, "string");
+  }
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - network errors", async () => {
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = () => Promise.reject(new TypeError("connection reset"));
+
+  const engine = new LingoDotDevEngine({ apiKey: "test-key" });
+  const error = await assertRejects(
+    () => engine.recognizeLocale("Hola"),
+    NetworkError,
+    "connection reset",
+  );
+  assertInstanceOf(error.cause, TypeError);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - retries transient server errors", async () => {
+  let callCount = 0;
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = () => {
+    callCount++;
+    if (callCount === 1) {
+      return Promise.resolve(new Response("Bad Gateway", { status: 502 }));
+    }
+    if (callCount === 2) {
+      return Promise.resolve(
+        new Response("Too Many Requests", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        }),
+      );
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify({ data: { text: "Hola" } }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+  };
+
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    retry: { maxAttempts: 3, baseDelay: 1 },
+  });
+  const result = await engine.localizeText("Hello", {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  assertEquals(result, "Hola");
+  assertEquals(callCount, 3);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - caps Retry-After at maxDelay", async () => {
+  const retryAfters = [
+    "0.01",
+    "3600",
+    new Date(Date.now() + 864e5).toUTCString(),
+  ];
+  let callCount = 0;
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    retry: { maxAttempts: 5, baseDelay: 1, maxDelay: 1000 },
+    fetch: () => {
+      const retryAfter = retryAfters[callCount++];
+      return Promise.resolve(
+        new Response("Slow down", {
+          status: callCount === 3 ? 503 : 429,
+          headers: { "Retry-After": retryAfter },
+        }),
+      );
+    },
+  });
+  const params = { sourceLocale: "en", targetLocale: "es" } as const;
+
+  // A short delay is waited for, a long one fails right away
+  const error = await assertRejects(
+    () => engine.localizeText("Hello", params),
+    RateLimitError,
+  );
+  assertEquals(callCount, 2);
+  assertEquals(error.retryAfter, 3600000);
+
+  await assertRejects(() => engine.localizeText("Hello", params), ServerError);
+  assertEquals(callCount, 3);
+});
+
+Deno.test("LingoDotDevEngine - does not retry without a retry policy", async () => {
+  let callCount = 0;
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = () => {
+    callCount++;
+    return Promise.resolve(new Response("Bad Gateway", { status: 502 }));
+  };
+
+  const engine = new LingoDotDevEngine({ apiKey: "test-key" });
+  await assertRejects(
+    () => engine.recognizeLocale("Hola mundo"),
+    Error,
+    "Server error",
+  );
+
+  assertEquals(callCount, 1);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - abort stops retry backoff", async () => {
+  let callCount = 0;
+  originalFetch = globalThis.fetch;
+  globalThis.fetch = () => {
+    callCount++;
+    return Promise.resolve(new Response("Unavailable", { status: 503 }));
+  };
+
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    retry: { maxAttempts: 5, baseDelay: 10000 },
+  });
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 10);
+
+  await assertRejects(
+    () =>
+      engine.localizeText(
+        "Hello",
+        { sourceLocale: "en", targetLocale: "es" },
+        undefined,
+        controller.signal,
+      ),
+    AbortedError,
+  );
+
+  assertEquals(callCount, 1);
+  restoreFetch();
+});
+
+Deno.test("LingoDotDevEngine - injected fetch and request hooks", async () => {
+  const seenHeaders: Headers[] = [];
+  const statuses: number[] = [];
+
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: (_input, init) => {
+      seenHeaders.push(new Headers(init?.headers));
+      return Promise.resolve(
+        new Response(JSON.stringify({ locale: "fr" }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    },
+    onRequest: (request) => {
+      request.init.headers.set("traceparent", "00-trace-span-01");
+    },
+    onResponse: (response, request) => {
+      statuses.push(response.status);
+      assertEquals(request.attempt, 1);
+    },
+  });
+
+  const result = await engine.recognizeLocale("Bonjour");
+
+  assertEquals(result, "fr");
+  assertEquals(seenHeaders[0].get("traceparent"), "00-trace-span-01");
+  assertEquals(seenHeaders[0].get("Authorization"), "Bearer test-key");
+  assertEquals(statuses, [200]);
+});
+
+Deno.test("pseudoLocalize - keeps placeholders and markup", () => {
+  assertEquals(pseudoLocalize("Hello"), "[Ĥéļļö~~]");
+  assertEquals(
+    pseudoLocalize("Hi {name}, <b>{{count}}</b> new &amp; %s", {
+      expansion: 0,
+      brackets: ["⟦", "⟧"],
+    }),
+    "⟦Ĥí {name}, <b>{{count}}</b> ñéŵ &amp; %s⟧",
+  );
+  assertEquals(pseudoLocalize("Hello", { accents: false }), "[Hello~~]");
+});
+
+Deno.test("pseudoLocalize - accents ICU branch text only", async () => {
+  const options = { expansion: 0, brackets: ["", ""] as [string, string] };
+  assertEquals(
+    pseudoLocalize(
+      "{count, plural, offset:1 =0 {No item} one {# item for {name}} other {# items}} left",
+      options,
+    ),
+    "{count, plural, offset:1 =0 {Ñö íţéɱ} one {# íţéɱ ƒöŕ {name}} other {# íţéɱš}} ļéƒţ",
+  );
+  assertEquals(
+    pseudoLocalize(
+      "{gender, select, female {She {n, number}} other {They}}",
+      options,
+    ),
+    "{gender, select, female {Šĥé {n, number}} other {Ţĥéý}}",
+  );
+
+  const engine = new LingoDotDevEngine({ apiKey: "test-key" });
+  const result = await engine.localizeText(
+    "{count, plural, one {# item} other {# items}}",
+    {
+      sourceLocale: "en",
+      targetLocale: "es",
+      pseudoLocalize: options,
+      protectPlaceholders: false,
+    },
+  );
+  assertEquals(result, "{count, plural, one {# íţéɱ} other {# íţéɱš}}");
+});
+
+Deno.test("LingoDotDevEngine - pseudoLocalize skips the API", async () => {
+  let callCount = 0;
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: () => {
+      callCount++;
+      return Promise.reject(new TypeError("should not be called"));
+    },
+  });
+
+  const result = await engine.localizeObject(
+    { title: "Save", nested: ["Cancel {name}"] },
+    {
+      sourceLocale: "en",
+      targetLocale: "es",
+      pseudoLocalize: { expansion: 50 },
+    },
+  );
+  const html = await engine.localizeHtml(
+    "<html><body><p>Home</p></body></html>",
+    { sourceLocale: "en", targetLocale: "es", pseudoLocalize: true },
+  );
+
+  assertEquals(result, {
+    title: "[Šáṽé~~]",
+    nested: ["[Çáñçéļ {name}~~~~]"],
+  });
+  assertEquals(html.includes("[Ĥöɱé~~]"), true);
+  assertEquals(callCount, 0);
+});
+
 Deno.test("LingoDotDevEngine - progress callback", async () => {
   setupMockFetch({ data: { text: "Texto traducido" } });
 
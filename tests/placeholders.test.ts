@@ -0,0 +1,113 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  LingoDotDevEngine,
+  protectPlaceholders,
+  ValidationError,
+} from "../mod.ts";
+
+Deno.test("protectPlaceholders - replaces interpolations with tokens", () => {
+  const protection = protectPlaceholders({
+    greeting: "Hello {{name}}, you are %1$s",
+    plain: "Save",
+    code: "function() { return 1; }",
+  });
+
+  assertEquals(protection.data, {
+    greeting: "Hello ⟦0⟧, you are ⟦1⟧",
+    plain: "Save",
+    code: "function() { return 1; }",
+  });
+  assertEquals(
+    protection.restore({
+      greeting: "Hola ⟦0⟧, eres ⟦1⟧",
+      plain: "Guardar",
+      code: "function() { return 1; }",
+    }),
+    {
+      greeting: "Hola {{name}}, eres %1$s",
+      plain: "Guardar",
+      code: "function() { return 1; }",
+    },
+  );
+});
+
+Deno.test("protectPlaceholders - splits ICU plural branches", () => {
+  const protection = protectPlaceholders(
+    {
+      cart:
+        "You have {count, plural, =0 {no items} one {# item} other {# items}} in {place}",
+    },
+    { cart: ["shopping cart"] },
+  );
+
+  assertEquals(protection.data, {
+    cart: "You have ⟦0⟧ in ⟦1⟧",
+    "cart::icu/0/0": "no items",
+    "cart::icu/0/1": "⟦0⟧ item",
+    "cart::icu/0/2": "⟦0⟧ items",
+  });
+  assertEquals(protection.hints?.["cart::icu/0/1"], ["shopping cart"]);
+  assertEquals(
+    protection.restore({
+      cart: "Tienes ⟦0⟧ en ⟦1⟧",
+      "cart::icu/0/0": "ningún artículo",
+      "cart::icu/0/1": "⟦0⟧ artículo",
+      "cart::icu/0/2": "⟦0⟧ artículos",
+    }),
+    {
+      cart:
+        "Tienes {count, plural, =0 {ningún artículo} one {# artículo} other {# artículos}} en {place}",
+    },
+  );
+});
+
+Deno.test("protectPlaceholders - rejects lost placeholders", () => {
+  const protection = protectPlaceholders({ greeting: "Hello {name}" });
+
+  assertThrows(
+    () => protection.restore({ greeting: "Hola {nombre}" }),
+    ValidationError,
+    "Placeholder mismatch",
+  );
+});
+
+Deno.test("LingoDotDevEngine - placeholders round-trip through the API", async () => {
+  const sent: Record<string, string>[] = [];
+  const engine = new LingoDotDevEngine({
+    apiKey: "test-key",
+    fetch: (_input, init) => {
+      const body = JSON.parse(String(init?.body));
+      sent.push(body.data);
+      const data: Record<string, string> = {};
+      for (const [key, value] of Object.entries(body.data)) {
+        data[key] = key === "broken" ? "ES:" : `ES:${value}`;
+      }
+      return Promise.resolve(
+        new Response(JSON.stringify({ data }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        }),
+      );
+    },
+  });
+  const params = { sourceLocale: "en", targetLocale: "es" } as const;
+
+  const result = await engine.localizeObject(
+    { label: "{n, select, male {He} other {They}} liked it" },
+    params,
+  );
+  assertEquals(result, {
+    label: "ES:{n, select, male {ES:He} other {ES:They}} liked it",
+  });
+  assertEquals(sent[0], {
+    label: "⟦0⟧ liked it",
+    "label::icu/0/0": "He",
+    "label::icu/0/1": "They",
+  });
+
+  const error = await assertRejects(
+    () => engine.localizeObject({ broken: "Hi {name}" }, params),
+    ValidationError,
+  );
+  assertEquals(error.chunkIndex, 0);
+});
@@ -0,0 +1,192 @@
+import { assertEquals } from "@std/assert";
+import { MockLingoDotDevEngine } from "../mod.ts";
+
+const CATALOG = `# Translations for the demo app
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: en\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+#. Shown on the home page
+#: src/home.ts:12
+msgid "Welcome"
+msgstr ""
+
+# Keep it short
+msgctxt "button"
+msgid "Open"
+msgstr ""
+
+msgid "One file"
+msgid_plural "Many files"
+msgstr[0] ""
+msgstr[1] ""
+
+msgid "Save"
+msgstr "Guardar ya"
+
+#, fuzzy, c-format
+#| msgid "Close"
+msgid "Close all"
+msgstr "Cerrar"
+
+msgid ""
+"First line\\n"
+"Second line"
+msgstr ""
+`;
+
+const DICTIONARY = {
+  es: {
+    "Welcome": "Bienvenido",
+    "Open": "Abrir",
+    "One file": "Un archivo",
+    "Many files": "Muchos archivos",
+    "Save": "Guardar",
+    "Close all": "Cerrar todo",
+    "First line\nSecond line": "Primera línea\nSegunda línea",
+  },
+};
+
+Deno.test("localizePo - translates missing and fuzzy entries", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  });
+
+  const result = await engine.localizePo(CATALOG, {
+    sourceLocale: "en",
+    targetLocale: "es",
+  });
+
+  assertEquals(
+    result,
+    `# Translations for the demo app
+msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Language: es\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+#. Shown on the home page
+#: src/home.ts:12
+msgid "Welcome"
+msgstr "Bienvenido"
+
+# Keep it short
+msgctxt "button"
+msgid "Open"
+msgstr "Abrir"
+
+msgid "One file"
+msgid_plural "Many files"
+msgstr[0] "Un archivo"
+msgstr[1] "Muchos archivos"
+
+msgid "Save"
+msgstr "Guardar ya"
+
+#, c-format
+msgid "Close all"
+msgstr "Cerrar todo"
+
+msgid ""
+"First line\\n"
+"Second line"
+msgstr ""
+"Primera línea\\n"
+"Segunda línea"
+`,
+  );
+  assertEquals(engine.requests[0].body?.hints, {
+    "entry/1": ["Shown on the home page"],
+    "entry/2": ["Context: button", "Keep it short"],
+  });
+});
+
+Deno.test("localizePo - overwrites translations and marks them fuzzy", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  });
+
+  const result = await engine.localizePo(
+    `msgid "Save"\nmsgstr "Guardar ya"\n\n#| msgid "Exit"\nmsgid "Open"\nmsgstr ""\n`,
+    {
+      sourceLocale: "en",
+      targetLocale: "es",
+      overwrite: true,
+      markFuzzy: true,
+    },
+  );
+
+  assertEquals(
+    result,
+    `#, fuzzy\nmsgid "Save"\nmsgstr "Guardar"\n\n#, fuzzy\n#| msgid "Exit"\nmsgid "Open"\nmsgstr "Abrir"\n`,
+  );
+});
+
+Deno.test("localizePo - fills every plural form of a POT file", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" });
+
+  const result = await engine.localizePo(
+    `msgid ""\nmsgstr ""\n"Plural-Forms: nplurals=3; plural=n%10==1 ? 0 : n ? 1 : 2;\\n"\n\nmsgid "%d day"\nmsgid_plural "%d days"\nmsgstr[0] ""\nmsgstr[1] ""\n`,
+    { sourceLocale: "en", targetLocale: "pl" },
+  );
+
+  const forms = result.split("\n").filter((line) => line.startsWith("msgstr["));
+  assertEquals(forms.length, 3);
+  assertEquals(forms[0] !== 'msgstr[0] ""', true);
+  assertEquals(forms[1].slice(10), forms[2].slice(10));
+  assertEquals(Object.keys(engine.requests[0].body?.data ?? {}), [
+    "entry/1",
+    "entry/1/plural",
+  ]);
+});
+
+Deno.test("localizePo - maps plural forms with the Plural-Forms expression", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      ar: { "One file": "ملف واحد", "Many files": "ملفات" },
+      ja: { "One file": "1 ファイル", "Many files": "ファイル" },
+    },
+  });
+  const catalog = (pluralForms: string) =>
+    `msgid ""\nmsgstr ""\n"Plural-Forms: ${pluralForms}\\n"\n\nmsgid "One file"\nmsgid_plural "Many files"\nmsgstr[0] ""\n`;
+  const forms = (po: string) =>
+    po.split("\n").filter((line) => line.startsWith("msgstr["));
+
+  // Arabic uses form 0 for n=0 and form 1 for n=1
+  const arabic = await engine.localizePo(
+    catalog(
+      "nplurals=6; plural=n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5;",
+    ),
+    { sourceLocale: "en", targetLocale: "ar" },
+  );
+  assertEquals(forms(arabic), [
+    'msgstr[0] "ملفات"',
+    'msgstr[1] "ملف واحد"',
+    'msgstr[2] "ملفات"',
+    'msgstr[3] "ملفات"',
+    'msgstr[4] "ملفات"',
+    'msgstr[5] "ملفات"',
+  ]);
+
+  // Catalogs may put the singular form last
+  const reversed = await engine.localizePo(
+    catalog("nplurals=2; plural=(n==1 ? 1 : 0);"),
+    { sourceLocale: "en", targetLocale: "ar" },
+  );
+  assertEquals(forms(reversed), [
+    'msgstr[0] "ملفات"',
+    'msgstr[1] "ملف واحد"',
+  ]);
+
+  const japanese = await engine.localizePo(
+    catalog("nplurals=1; plural=0;"),
+    { sourceLocale: "en", targetLocale: "ja" },
+  );
+  assertEquals(forms(japanese), ['msgstr[0] "ファイル"']);
+});
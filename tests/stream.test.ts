@@ -0,0 +1,77 @@
+import { assertEquals } from "@std/assert";
+import {
+  type LocalizationStreamChunk,
+  MockLingoDotDevEngine,
+  toReadableStream,
+} from "../mod.ts";
+
+const params = { sourceLocale: "en", targetLocale: "es" } as const;
+
+Deno.test("localizeObjectStream - yields every chunk", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { es: { One: "Uno", Two: "Dos", Three: "Tres" } },
+  }, { batchSize: 1 });
+
+  const chunks: LocalizationStreamChunk[] = [];
+  for await (
+    const chunk of engine.localizeObjectStream(
+      { a: "One", nested: { b: "Two", c: ["Three"] } },
+      params,
+    )
+  ) {
+    chunks.push(chunk);
+  }
+
+  assertEquals(chunks.map((chunk) => chunk.progress), [33, 67, 100]);
+  assertEquals(chunks[1], {
+    progress: 67,
+    sourceChunk: { "nested/b": "Two" },
+    processedChunk: { "nested/b": "Dos" },
+  });
+});
+
+Deno.test("localizeStringArrayStream - breaking stops remaining chunks", async () => {
+  const engine = new MockLingoDotDevEngine({ latency: 5 }, { batchSize: 1 });
+
+  for await (
+    const chunk of engine.localizeStringArrayStream(
+      ["a", "b", "c", "d"],
+      params,
+    )
+  ) {
+    assertEquals(chunk.processedChunk, { item_0: "a" });
+    break;
+  }
+  await new Promise((resolve) => setTimeout(resolve, 30));
+
+  assertEquals(engine.requests.length, 2);
+});
+
+Deno.test("toReadableStream - encodes NDJSON and SSE", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "pseudo" });
+  const chat = [{ name: "Alice", text: "Hi" }];
+
+  const ndjson = await new Response(
+    toReadableStream(engine.localizeChatStream(chat, params)),
+  ).text();
+  assertEquals(
+    ndjson,
+    `${
+      JSON.stringify({
+        progress: 100,
+        sourceChunk: { chat_0: "Hi" },
+        processedChunk: { chat_0: "[Ĥí~]" },
+      })
+    }\n`,
+  );
+
+  engine.injectFailures({ status: 503 });
+  const sse = await new Response(
+    toReadableStream(engine.localizeChatStream(chat, params), {
+      format: "sse",
+    }),
+  ).text();
+  assertEquals(sse.startsWith("event: error\ndata: "), true);
+  assertEquals(sse.includes('"name":"ServerError"'), true);
+});
@@ -0,0 +1,89 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { MockLingoDotDevEngine, ValidationError } from "../mod.ts";
+
+const VTT = `WEBVTT - Episode 1
+
+STYLE
+::cue(.yellow) { color: yellow; }
+
+NOTE Reviewed by the video team
+00:00:00.000 --> 00:00:01.000 is not a cue
+
+intro
+00:00:01.000 --> 00:00:03.000 align:start position:10%
+<v Roger>Tom &amp; Jerry <i>were</i>
+going to the
+
+00:00:03.500 --> 00:00:05.000
+<c.yellow>market</c>, <00:00:04.000>weren't they?
+`;
+
+Deno.test("localizeSubtitles - keeps WebVTT structure and styling", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      de: {
+        "<0/>Tom & Jerry <1>were</1>\ngoing to the":
+          "<0/>Tom & Jerry <1>gingen</1>\nzum",
+        "<0>market</0>, <1/>weren't they?": "<0>Markt</0>, <1/>oder?",
+      },
+    },
+  });
+
+  const result = await engine.localizeSubtitles(VTT, {
+    sourceLocale: "en",
+    targetLocale: "de",
+  });
+
+  assertEquals(
+    result,
+    VTT
+      .replace("<i>were</i>\ngoing to the", "<i>gingen</i>\nzum")
+      .replace(
+        "market</c>, <00:00:04.000>weren't they?",
+        "Markt</c>, <00:00:04.000>oder?",
+      ),
+  );
+  assertEquals(engine.requests[0].body?.hints, {
+    chat_0: ["Next cue: market, weren't they?"],
+    chat_1: ["Previous cue: Tom & Jerry were going to the"],
+  });
+});
+
+Deno.test("localizeSubtitles - translates SRT cue text only", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: {
+      fr: {
+        "<0/><1>Hello</1>": "<0/><1>Bonjour</1>",
+        "<0>World</0> again": "Le <0>monde</0>\n\nencore",
+      },
+    },
+  });
+
+  const result = await engine.localizeSubtitles(
+    "1\r\n00:00:01,000 --> 00:00:02,000\r\n{\\an8}<i>Hello</i>\r\n\r\n2\r\n00:00:02,500 --> 00:00:04,000\r\n<b>World</b> again\r\n\r\n3\r\n00:00:04,500 --> 00:00:05,000\r\n♪ ♪\r\n",
+    { sourceLocale: "en", targetLocale: "fr", format: "srt", contextCues: 0 },
+  );
+
+  assertEquals(
+    result,
+    "1\r\n00:00:01,000 --> 00:00:02,000\r\n{\\an8}<i>Bonjour</i>\r\n\r\n2\r\n00:00:02,500 --> 00:00:04,000\r\nLe <b>monde</b>\r\nencore\r\n\r\n3\r\n00:00:04,500 --> 00:00:05,000\r\n♪ ♪\r\n",
+  );
+  assertEquals(engine.requests[0].body?.hints, {});
+});
+
+Deno.test("localizeSubtitles - rejects a WebVTT file without header", async () => {
+  const engine = new MockLingoDotDevEngine();
+
+  await assertRejects(
+    () =>
+      engine.localizeSubtitles("00:00:01.000 --> 00:00:02.000\nHi\n", {
+        sourceLocale: "en",
+        targetLocale: "de",
+        format: "vtt",
+      }),
+    ValidationError,
+    "missing WEBVTT header",
+  );
+});
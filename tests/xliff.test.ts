@@ -0,0 +1,142 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { MockLingoDotDevEngine, ValidationError } from "../mod.ts";
+
+const XLIFF_12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" datatype="plaintext" original="app.json">
+    <body>
+      <trans-unit id="greeting">
+        <source>Hello <g id="1">dear</g> user<x id="2"/>!</source>
+        <note>Home page title</note>
+      </trans-unit>
+      <trans-unit id="done">
+        <source>Done</source>
+        <target state="final">Fertig</target>
+      </trans-unit>
+      <trans-unit id="code" translate="no">
+        <source>main()</source>
+      </trans-unit>
+      <trans-unit id="bye">
+        <source>Bye &amp; <ph id="3">{name}</ph></source>
+        <target state="needs-translation"/>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const DICTIONARY = {
+  de: {
+    "Hello <0>dear</0> user<1/>!": "Hallo <0>lieber</0> Nutzer<1/>!",
+    "Bye & <0/>": "Tschüss & <0/>",
+    "Done": "Erledigt",
+    "Click <0>here</0><1/>": "Klicken Sie <0>hier</0><1/>",
+    "Then wait.": "Dann warten.",
+  },
+};
+
+Deno.test("localizeXliff - fills XLIFF 1.2 targets", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  });
+
+  const result = await engine.localizeXliff(XLIFF_12, {
+    sourceLocale: "en",
+    targetLocale: "de",
+  });
+
+  assertEquals(
+    result,
+    XLIFF_12
+      .replace(
+        'original="app.json"',
+        'original="app.json" target-language="de"',
+      )
+      .replace(
+        'user<x id="2"/>!</source>',
+        'user<x id="2"/>!</source>\n        <target state="translated">Hallo <g id="1">lieber</g> Nutzer<x id="2"/>!</target>',
+      )
+      .replace(
+        '<target state="needs-translation"/>',
+        '<target state="translated">Tschüss &amp; <ph id="3">{name}</ph></target>',
+      ),
+  );
+  assertEquals(engine.requests[0].body?.data, {
+    "0/greeting": "Hello <0>dear</0> user<1/>!",
+    "0/bye": "Bye & <0/>",
+  });
+  assertEquals(engine.requests[0].body?.hints, {
+    "0/greeting": ["Home page title"],
+  });
+});
+
+Deno.test("localizeXliff - fills XLIFF 2.0 segments", async () => {
+  const engine = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: DICTIONARY,
+  });
+
+  const result = await engine.localizeXliff(
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en">
+ <file id="f1">
+  <unit id="u1">
+   <segment><source>Click <pc id="1">here</pc><ph id="2"/></source></segment>
+   <ignorable><source> </source></ignorable>
+   <segment state="initial"><source>Then wait.</source><target/></segment>
+  </unit>
+  <unit id="u2">
+   <segment state="reviewed"><source>Done</source><target>Fertig</target></segment>
+  </unit>
+ </file>
+</xliff>`,
+    {
+      sourceLocale: "en",
+      targetLocale: "de",
+      overwrite: true,
+      targetState: "initial",
+    },
+  );
+
+  assertEquals(
+    result,
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">
+ <file id="f1">
+  <unit id="u1">
+   <segment state="initial"><source>Click <pc id="1">here</pc><ph id="2"/></source><target>Klicken Sie <pc id="1">hier</pc><ph id="2"/></target></segment>
+   <ignorable><source> </source></ignorable>
+   <segment state="initial"><source>Then wait.</source><target>Dann warten.</target></segment>
+  </unit>
+  <unit id="u2">
+   <segment state="initial"><source>Done</source><target>Erledigt</target></segment>
+  </unit>
+ </file>
+</xliff>`,
+  );
+});
+
+Deno.test("localizeXliff - rejects invalid documents and lost inline elements", async () => {
+  const engine = new MockLingoDotDevEngine({ mode: "dictionary" });
+  const params = { sourceLocale: "en", targetLocale: "de" } as const;
+
+  await assertRejects(
+    () => engine.localizeXliff("<xliff version='1.2'><file>", params),
+    ValidationError,
+    "Invalid XLIFF document",
+  );
+  await assertRejects(
+    () => engine.localizeXliff('<xliff version="3.0"/>', params),
+    ValidationError,
+    'unsupported version "3.0"',
+  );
+
+  const lossy = new MockLingoDotDevEngine({
+    mode: "dictionary",
+    dictionary: { de: { "Hello <0>dear</0> user<1/>!": "Hallo Nutzer!" } },
+  });
+  await assertRejects(
+    () => lossy.localizeXliff(XLIFF_12, params),
+    ValidationError,
+    "Markup mismatch",
+  );
+});